@@ -1,78 +1,246 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import Sidebar from "./components/Sidebar";
 import ImageViewer from "./components/ImageViewer";
+import { useHistory } from "./hooks/useHistory";
+import {
+  dataUrlToBlob,
+  deleteImageBlob,
+  getStorageEstimate,
+  isQuotaExceededError,
+  loadImages,
+  requestPersistentStorage,
+  saveImageBlob,
+  saveImageMetadata,
+  type StorageEstimate,
+} from "./utils/storage";
+import type { Unit } from "./utils/units";
+import { dateStamp, downloadBlob } from "./utils/download";
+import {
+  PROJECT_FILE_EXTENSION,
+  ProjectFileError,
+  createProjectFile,
+  parseProjectFile,
+} from "./utils/project";
+import {
+  measurementsToCsv,
+  measurementsToJson,
+  type ExportFormat,
+} from "./utils/measurementExport";
+import {
+  withMeasurementIds,
+  type MeasuredImage,
+  type Measurement,
+} from "./utils/measurements";
+import type { Angle, Circle, Line, Polygon, Polyline } from "./utils/geometry";
+import type { PerspectiveCalibration } from "./utils/measure";
+import { readImageResolution } from "./utils/imageMetadata";
+import {
+  loadCustomPresets,
+  mergePresets,
+  saveCustomPresets,
+  type ReferencePreset,
+} from "./utils/presets";
+import {
+  loadCategories,
+  mergeCategories,
+  saveCategories,
+  type MeasurementCategory,
+} from "./utils/categories";
+import {
+  detachCalibration,
+  linkCalibration,
+  releaseLinkedImages,
+  resolveCalibration,
+} from "./utils/calibrationGroups";
 import "./App.css";
 
-interface Point {
-  x: number;
-  y: number;
-}
-
-interface Line {
-  start: Point;
-  end: Point;
-}
-
-interface ImageFile {
-  id: string;
+interface ImageFile extends MeasuredImage {
+  // URL of the image contents: an object URL for blobs kept in IndexedDB
   dataUrl: string;
-  name: string;
-  scale?: number;
-  calibrationLine?: Line;
-  measurementLines?: Line[];
 }
 
+// Image metadata as persisted, without the in-memory image URL
+type StoredImage = Omit<ImageFile, "dataUrl">;
+
+// Legacy localStorage key, only read to migrate data from older versions
 const STORAGE_KEY_IMAGES = "px2cm-images";
 const STORAGE_KEY_SELECTED_ID = "px2cm-selected-id";
 
+const toStoredImage = (image: ImageFile): StoredImage => {
+  const stored: Partial<ImageFile> = { ...image };
+  delete stored.dataUrl;
+  return stored as StoredImage;
+};
+
+// Move images saved in localStorage by older versions into IndexedDB
+const migrateFromLocalStorage = async () => {
+  const savedImages = localStorage.getItem(STORAGE_KEY_IMAGES);
+  if (!savedImages) return;
+
+  let parsedImages: ImageFile[];
+  try {
+    parsedImages = JSON.parse(savedImages);
+  } catch (error) {
+    console.error("Discarding corrupted images in localStorage:", error);
+    localStorage.removeItem(STORAGE_KEY_IMAGES);
+    return;
+  }
+
+  for (const image of parsedImages) {
+    await saveImageBlob(image.id, await dataUrlToBlob(image.dataUrl));
+  }
+  const { images: existingImages } = await loadImages<StoredImage>();
+  const migratedIds = new Set(parsedImages.map((img) => img.id));
+  await saveImageMetadata([
+    ...existingImages.filter((img) => !migratedIds.has(img.id)),
+    ...parsedImages.map(toStoredImage),
+  ]);
+
+  // Only drop the old copy once everything is safely in IndexedDB
+  localStorage.removeItem(STORAGE_KEY_IMAGES);
+};
+
 function App() {
-  const [images, setImages] = useState<ImageFile[]>([]);
+  // Every change to the images goes through the undo/redo history
+  const {
+    state: images,
+    reachableStates,
+    set: setImages,
+    reset: resetImages,
+    undo,
+    redo,
+    beginBatch,
+    endBatch,
+    canUndo,
+    canRedo,
+  } = useHistory<ImageFile[]>([]);
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  // The user's own calibration references; kept out of the undo history
+  const [customPresets, setCustomPresets] =
+    useState<ReferencePreset[]>(loadCustomPresets);
+  // Categories measurements can be sorted into; toggling a layer's visibility
+  // shouldn't be undone along with edits, so they're kept out of the history
+  const [categories, setCategories] =
+    useState<MeasurementCategory[]>(loadCategories);
 
-  // Load saved data from localStorage on mount
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  const [storageEstimate, setStorageEstimate] =
+    useState<StorageEstimate | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Blobs of every image seen this session, so undo can restore deleted images
+  const blobsRef = useRef(new Map<string, Blob>());
+  // Ids of the images whose blobs are currently stored in IndexedDB
+  const storedBlobIdsRef = useRef(new Set<string>());
+  // Object URLs of the images that undo/redo could still return to
+  const objectUrlsRef = useRef(new Set<string>());
+  // Saves run one after another so they can't overtake each other
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Load saved data from IndexedDB on mount, migrating from localStorage first
   useEffect(() => {
-    try {
-      const savedImages = localStorage.getItem(STORAGE_KEY_IMAGES);
-      const savedSelectedId = localStorage.getItem(STORAGE_KEY_SELECTED_ID);
+    let cancelled = false;
 
-      if (savedImages) {
-        const parsedImages = JSON.parse(savedImages);
-        setImages(parsedImages);
-      }
+    const load = async () => {
+      try {
+        await requestPersistentStorage();
+        await migrateFromLocalStorage();
+        const { images: savedImages, blobs } = await loadImages<StoredImage>();
+        if (cancelled) return;
 
-      if (savedSelectedId) {
-        setSelectedImageId(savedSelectedId);
+        const loadedImages: ImageFile[] = [];
+        savedImages.forEach((image) => {
+          const blob = blobs.get(image.id);
+          if (!blob) return;
+          blobsRef.current.set(image.id, blob);
+          storedBlobIdsRef.current.add(image.id);
+          loadedImages.push(
+            withMeasurementIds({
+              ...image,
+              dataUrl: URL.createObjectURL(blob),
+            }),
+          );
+        });
+        resetImages(loadedImages);
+        setIsStorageLoaded(true);
+
+        const savedSelectedId = localStorage.getItem(STORAGE_KEY_SELECTED_ID);
+        if (savedSelectedId) {
+          setSelectedImageId(savedSelectedId);
+        }
+      } catch (error) {
+        console.error("Failed to load saved data:", error);
+        // Saving stays off so the stored images aren't overwritten
+        if (!cancelled) {
+          setStorageError(
+            "Saved images could not be loaded from browser storage. Changes made now won't be saved; reload the page to try again.",
+          );
+        }
       }
-    } catch (error) {
-      console.error("Failed to load saved data from localStorage:", error);
-      // If there's an error, clear corrupted data
-      localStorage.removeItem(STORAGE_KEY_IMAGES);
-      localStorage.removeItem(STORAGE_KEY_SELECTED_ID);
-    }
-  }, []);
+    };
 
-  // Save images to localStorage whenever they change
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [resetImages]);
+
+  // Save images to IndexedDB whenever they change
   useEffect(() => {
-    try {
-      if (images.length > 0) {
-        localStorage.setItem(STORAGE_KEY_IMAGES, JSON.stringify(images));
-      } else {
-        // Clear storage if no images
-        localStorage.removeItem(STORAGE_KEY_IMAGES);
-      }
-    } catch (error) {
-      console.error("Failed to save images to localStorage:", error);
-      // If quota exceeded, alert the user
-      if (
-        error instanceof DOMException &&
-        error.name === "QuotaExceededError"
-      ) {
-        alert(
-          "Storage quota exceeded. Your images are too large to save automatically. Consider using fewer or smaller images.",
+    // Don't overwrite saved data before it has been loaded
+    if (!isStorageLoaded) return;
+
+    const save = async () => {
+      try {
+        // Store blobs of new (or restored) images and drop those of removed ones
+        for (const image of images) {
+          const blob = blobsRef.current.get(image.id);
+          if (blob && !storedBlobIdsRef.current.has(image.id)) {
+            await saveImageBlob(image.id, blob);
+            storedBlobIdsRef.current.add(image.id);
+          }
+        }
+        const currentIds = new Set(images.map((img) => img.id));
+        for (const id of [...storedBlobIdsRef.current]) {
+          if (!currentIds.has(id)) {
+            await deleteImageBlob(id);
+            storedBlobIdsRef.current.delete(id);
+          }
+        }
+
+        await saveImageMetadata(images.map(toStoredImage));
+        setStorageError(null);
+      } catch (error) {
+        console.error("Failed to save images to IndexedDB:", error);
+        setStorageError(
+          isQuotaExceededError(error)
+            ? "Storage is full: recent changes were not saved. Delete some images to free up space."
+            : "Recent changes could not be saved to browser storage.",
         );
       }
+      try {
+        setStorageEstimate(await getStorageEstimate());
+      } catch (error) {
+        console.error("Failed to estimate storage usage:", error);
+      }
+    };
+
+    saveQueueRef.current = saveQueueRef.current.then(save);
+  }, [images, isStorageLoaded]);
+
+  // Release the object URLs of images that neither the present state nor
+  // undo/redo can bring back
+  useEffect(() => {
+    const reachableUrls = new Set(
+      reachableStates.flatMap((state) => state.map((img) => img.dataUrl)),
+    );
+    for (const url of objectUrlsRef.current) {
+      if (!reachableUrls.has(url)) {
+        URL.revokeObjectURL(url);
+        objectUrlsRef.current.delete(url);
+      }
     }
-  }, [images]);
+    reachableUrls.forEach((url) => objectUrlsRef.current.add(url));
+  }, [reachableStates]);
 
   // Save selected image ID to localStorage whenever it changes
   useEffect(() => {
@@ -87,31 +255,44 @@ function App() {
     }
   }, [selectedImageId]);
 
-  const handleImagesUpload = (files: File[]) => {
-    const newImages: ImageFile[] = [];
+  // Save the user's reference presets whenever they change
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
+
+  // Save the measurement categories whenever they change
+  useEffect(() => {
+    saveCategories(categories);
+  }, [categories]);
 
-    files.forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const dataUrl = e.target?.result as string;
-        const newImage: ImageFile = {
-          id: `${Date.now()}-${Math.random()}`,
-          dataUrl,
+  const handleImagesUpload = async (files: File[]) => {
+    const newImages: ImageFile[] = await Promise.all(
+      files.map(async (file) => {
+        const id = `${Date.now()}-${Math.random()}`;
+        blobsRef.current.set(id, file);
+        const image: ImageFile = {
+          id,
+          dataUrl: URL.createObjectURL(file),
           name: file.name,
         };
-        newImages.push(newImage);
-
-        // Update state when all files are loaded
-        if (newImages.length === files.length) {
-          setImages((prev) => [...prev, ...newImages]);
-          // Auto-select the first uploaded image if none is selected
-          if (!selectedImageId && newImages.length > 0) {
-            setSelectedImageId(newImages[0].id);
-          }
-        }
-      };
-      reader.readAsDataURL(file);
-    });
+        // Scans and drawings record their resolution, a better first guess
+        // than the default scale
+        const resolution = await readImageResolution(file);
+        if (!resolution) return image;
+        return {
+          ...image,
+          scale: resolution.x,
+          scaleY: resolution.y !== resolution.x ? resolution.y : undefined,
+          scaleSource: "metadata",
+        };
+      }),
+    );
+
+    setImages((prev) => [...prev, ...newImages]);
+    // Auto-select the first uploaded image if none is selected
+    if (!selectedImageId && newImages.length > 0) {
+      setSelectedImageId(newImages[0].id);
+    }
   };
 
   const handleImageSelect = (id: string) => {
@@ -122,15 +303,80 @@ function App() {
     imageId: string,
     scale: number,
     calibrationLine?: Line,
+    calibrationLength?: number,
+    calibrationTolerance?: number,
   ) => {
+    // A line calibration replaces any perspective calibration
     setImages((prev) =>
       prev.map((img) =>
-        img.id === imageId ? { ...img, scale, calibrationLine } : img,
+        img.id === imageId
+          ? {
+              ...detachCalibration(img, prev),
+              scale,
+              scaleSource: undefined,
+              calibrationLine,
+              calibrationLength,
+              calibrationTolerance,
+              perspective: undefined,
+            }
+          : img,
       ),
     );
   };
 
-  const updateImageMeasurements = (imageId: string, measurements: Line[]) => {
+  const updateImageScaleY = (
+    imageId: string,
+    scaleY: number | undefined,
+    calibrationLineY?: Line,
+    calibrationLengthY?: number,
+    calibrationToleranceY?: number,
+  ) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId
+          ? {
+              ...detachCalibration(img, prev),
+              scaleY,
+              scaleSource: undefined,
+              calibrationLineY,
+              calibrationLengthY,
+              calibrationToleranceY,
+              perspective: undefined,
+            }
+          : img,
+      ),
+    );
+  };
+
+  const updateImagePerspective = (
+    imageId: string,
+    perspective: PerspectiveCalibration | undefined,
+  ) => {
+    setImages((prev) =>
+      prev.map((img) => {
+        if (img.id !== imageId) return img;
+        // Changing a shared calibration on a linked image makes it its own
+        const own = detachCalibration(img, prev);
+        if (!perspective) return { ...own, perspective: undefined };
+        // The perspective calibration takes over from the calibration line
+        return {
+          ...own,
+          perspective,
+          calibrationLine: undefined,
+          calibrationLength: undefined,
+          calibrationTolerance: undefined,
+          calibrationLineY: undefined,
+          calibrationLengthY: undefined,
+          calibrationToleranceY: undefined,
+        };
+      }),
+    );
+  };
+
+  const updateImageMeasurements = (
+    imageId: string,
+    measurements: Measurement<Line>[],
+  ) => {
     setImages((prev) =>
       prev.map((img) =>
         img.id === imageId ? { ...img, measurementLines: measurements } : img,
@@ -138,22 +384,99 @@ function App() {
     );
   };
 
+  const updateImagePaths = (
+    imageId: string,
+    paths: Measurement<Polyline>[],
+  ) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId ? { ...img, measurementPaths: paths } : img,
+      ),
+    );
+  };
+
+  const updateImagePolygons = (
+    imageId: string,
+    polygons: Measurement<Polygon>[],
+  ) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId ? { ...img, measurementPolygons: polygons } : img,
+      ),
+    );
+  };
+
+  const updateImageAngles = (imageId: string, angles: Measurement<Angle>[]) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId ? { ...img, measurementAngles: angles } : img,
+      ),
+    );
+  };
+
+  const updateImageCircles = (
+    imageId: string,
+    circles: Measurement<Circle>[],
+  ) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId ? { ...img, measurementCircles: circles } : img,
+      ),
+    );
+  };
+
+  const updateImageUnit = (imageId: string, unit: Unit) => {
+    setImages((prev) =>
+      prev.map((img) => (img.id === imageId ? { ...img, unit } : img)),
+    );
+  };
+
+  const updateImagePrecision = (
+    imageId: string,
+    placementPrecision: number,
+  ) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === imageId ? { ...img, placementPrecision } : img,
+      ),
+    );
+  };
+
+  // Make the given images follow the calibration of the source image; images
+  // left out of the group keep a copy of the calibration they were using
+  const handleShareCalibration = (sourceId: string, targetIds: string[]) => {
+    const targets = new Set(targetIds);
+    setImages((prev) =>
+      linkCalibration(
+        prev.map((img) =>
+          img.calibrationSourceId === sourceId && !targets.has(img.id)
+            ? detachCalibration(img, prev)
+            : img,
+        ),
+        sourceId,
+        targetIds,
+      ),
+    );
+  };
+
   const handleClearAll = () => {
     if (
       confirm(
-        "Are you sure you want to clear all images and measurements? This cannot be undone.",
+        "Are you sure you want to clear all images and measurements? You can undo this with Ctrl+Z.",
       )
     ) {
       setImages([]);
       setSelectedImageId(null);
-      localStorage.removeItem(STORAGE_KEY_IMAGES);
       localStorage.removeItem(STORAGE_KEY_SELECTED_ID);
     }
   };
 
   const handleDeleteImage = (imageId: string) => {
-    // Remove the image from the list
-    setImages((prev) => prev.filter((img) => img.id !== imageId));
+    // Remove the image from the list; images sharing its calibration keep a
+    // copy of it
+    setImages((prev) =>
+      releaseLinkedImages(prev, [imageId]).filter((img) => img.id !== imageId),
+    );
 
     // If the deleted image was selected, clear selection or select another image
     if (selectedImageId === imageId) {
@@ -168,7 +491,158 @@ function App() {
     }
   };
 
-  const selectedImage = images.find((img) => img.id === selectedImageId);
+  const handleExportProject = async () => {
+    try {
+      const project = await createProjectFile(
+        images,
+        customPresets,
+        categories,
+      );
+      downloadBlob(
+        new Blob([JSON.stringify(project)], { type: "application/json" }),
+        `px2cm-project-${dateStamp()}${PROJECT_FILE_EXTENSION}`,
+      );
+    } catch (error) {
+      console.error("Failed to export project:", error);
+      alert("The project could not be exported.");
+    }
+  };
+
+  const handleExportMeasurements = (
+    scope: "current" | "all",
+    format: ExportFormat,
+  ) => {
+    const exported = (
+      scope === "all"
+        ? images
+        : images.filter((img) => img.id === selectedImageId)
+    ).map((img) => resolveCalibration(img, images));
+    if (exported.length === 0) return;
+
+    const baseName =
+      scope === "all"
+        ? `px2cm-measurements-${dateStamp()}`
+        : `${exported[0].name.replace(/\.[^.]+$/, "")}-measurements`;
+    if (format === "csv") {
+      downloadBlob(
+        new Blob([measurementsToCsv(exported, categories)], {
+          type: "text/csv",
+        }),
+        `${baseName}.csv`,
+      );
+    } else {
+      downloadBlob(
+        new Blob([measurementsToJson(exported, categories)], {
+          type: "application/json",
+        }),
+        `${baseName}.json`,
+      );
+    }
+  };
+
+  const handleImportProject = async (file: File, mode: "merge" | "replace") => {
+    try {
+      const project = parseProjectFile(await file.text());
+
+      const importedImages: ImageFile[] = [];
+      const importedIds = new Map<string, string>();
+      for (const projectImage of project.images) {
+        const blob = await dataUrlToBlob(projectImage.dataUrl);
+        // Give images whose id is already in use this session a fresh id
+        const id = blobsRef.current.has(projectImage.id)
+          ? `${Date.now()}-${Math.random()}`
+          : projectImage.id;
+        importedIds.set(projectImage.id, id);
+        blobsRef.current.set(id, blob);
+        importedImages.push(
+          withMeasurementIds({
+            ...projectImage,
+            id,
+            dataUrl: URL.createObjectURL(blob),
+          }),
+        );
+      }
+      // Keep shared calibrations pointing at the renamed images
+      importedImages.forEach((img) => {
+        if (img.calibrationSourceId !== undefined) {
+          img.calibrationSourceId = importedIds.get(img.calibrationSourceId);
+        }
+      });
+
+      // Presets and categories are only ever added, whichever way the images
+      // are imported
+      setCustomPresets((prev) => mergePresets(prev, project.presets));
+      setCategories((prev) => mergeCategories(prev, project.categories));
+
+      // Replacing stays undoable like any other change to the images
+      setImages((prev) =>
+        mode === "replace" ? importedImages : [...prev, ...importedImages],
+      );
+      if (
+        importedImages.length > 0 &&
+        (mode === "replace" || !selectedImageId)
+      ) {
+        setSelectedImageId(importedImages[0].id);
+      }
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      alert(
+        error instanceof ProjectFileError
+          ? `Could not import project: ${error.message}`
+          : "Could not import project: the file could not be read.",
+      );
+    }
+  };
+
+  // Keep a valid selection after undo/redo adds or removes images
+  const restoreSelection = (restored: ImageFile[] | undefined) => {
+    if (!restored) return;
+    if (!restored.some((img) => img.id === selectedImageId)) {
+      setSelectedImageId(restored.length > 0 ? restored[0].id : null);
+    }
+  };
+
+  const handleUndo = () => restoreSelection(undo());
+
+  const handleRedo = () => restoreSelection(redo());
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for undo/redo, with 'X' as an undo alias
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave native undo to input fields
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      const isModifier = e.ctrlKey || e.metaKey;
+      if (isModifier && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      } else if (isModifier && key === "y") {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === "x" && !isModifier && !e.altKey) {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // The viewer measures with the calibration an image shares, if any
+  const selectedImage = useMemo(() => {
+    const image = images.find((img) => img.id === selectedImageId);
+    return image && resolveCalibration(image, images);
+  }, [images, selectedImageId]);
 
   return (
     <div className="app">
@@ -179,11 +653,36 @@ function App() {
         onImageSelect={handleImageSelect}
         onClearAll={handleClearAll}
         onDeleteImage={handleDeleteImage}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        storageEstimate={storageEstimate}
+        storageError={storageError}
+        onExportProject={handleExportProject}
+        onImportProject={handleImportProject}
+        onExportMeasurements={handleExportMeasurements}
+        customPresets={customPresets}
+        onCustomPresetsChange={setCustomPresets}
+        onShareCalibration={handleShareCalibration}
       />
       <ImageViewer
         selectedImage={selectedImage || null}
         onScaleUpdate={updateImageScale}
+        onScaleYUpdate={updateImageScaleY}
+        onPrecisionUpdate={updateImagePrecision}
+        onPerspectiveUpdate={updateImagePerspective}
+        customPresets={customPresets}
+        categories={categories}
+        onCategoriesChange={setCategories}
         onMeasurementsUpdate={updateImageMeasurements}
+        onUnitUpdate={updateImageUnit}
+        onPathsUpdate={updateImagePaths}
+        onPolygonsUpdate={updateImagePolygons}
+        onAnglesUpdate={updateImageAngles}
+        onCirclesUpdate={updateImageCircles}
+        onEditStart={beginBatch}
+        onEditEnd={endBatch}
       />
     </div>
   );
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+
+// Entry point of the px2cm command-line tool, built with `pnpm build:cli`
+
+import { readFile, writeFile } from "node:fs/promises";
+import { run } from "./run";
+
+process.exitCode = await run(process.argv.slice(2), {
+  readFile: (path) => readFile(path, "utf8"),
+  writeFile: (path, contents) => writeFile(path, contents, "utf8"),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { run, USAGE, type CliIo } from "./run";
+
+const PROJECT = JSON.stringify({
+  format: "px2cm-project",
+  version: 1,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  images: [
+    {
+      id: "a",
+      name: "bench.png",
+      dataUrl: "data:image/png;base64,AAAA",
+      unit: "cm",
+      scale: 50,
+      measurementLines: [
+        {
+          id: "l1",
+          category: "c1",
+          start: { x: 0, y: 0 },
+          end: { x: 300, y: 400 },
+        },
+      ],
+    },
+    {
+      id: "b",
+      name: "second.png",
+      dataUrl: "data:image/png;base64,AAAA",
+      unit: "mm",
+      calibrationSourceId: "a",
+      measurementLines: [
+        { id: "l2", start: { x: 0, y: 0 }, end: { x: 0, y: 50 } },
+      ],
+    },
+  ],
+  categories: [
+    {
+      id: "c1",
+      name: "Width",
+      color: "#44aaff",
+      lineStyle: "solid",
+      visible: true,
+      locked: false,
+    },
+  ],
+});
+
+// An io over an in-memory file system that records what the tool prints
+const createIo = (files: Record<string, string> = {}) => {
+  const output = { stdout: "", stderr: "" };
+  const io: CliIo = {
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: no such file, ${path}`);
+      return files[path];
+    },
+    writeFile: async (path, contents) => {
+      files[path] = contents;
+    },
+    stdout: (text) => {
+      output.stdout += text;
+    },
+    stderr: (text) => {
+      output.stderr += text;
+    },
+  };
+  return { io, files, output };
+};
+
+const measureJson = async (args: string[]) => {
+  const { io, output } = createIo({ "p.json": PROJECT });
+  expect(
+    await run(["measure", "p.json", "--format", "json", ...args], io),
+  ).toBe(0);
+  return JSON.parse(output.stdout);
+};
+
+describe("measure", () => {
+  it("prints a CSV table of every image", async () => {
+    const { io, output } = createIo({ "p.json": PROJECT });
+    expect(await run(["measure", "p.json"], io)).toBe(0);
+    const lines = output.stdout.trim().split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatch(/^bench\.png,l1,Line 1,line,0 0; 300 400,500,10,/);
+    expect(lines[2]).toMatch(/^second\.png,l2,Line 1,line,0 0; 0 50,50,10,/);
+  });
+
+  it("measures with each image's own or shared calibration", async () => {
+    const [first, second] = await measureJson([]);
+    expect(first.measurements[0]).toMatchObject({
+      length: 10,
+      unit: "cm",
+      category: "Width",
+    });
+    expect(second.measurements[0]).toMatchObject({
+      length: 10,
+      unit: "mm",
+      category: null,
+    });
+  });
+
+  it("recomputes at another scale and unit", async () => {
+    const [first, second] = await measureJson([
+      "--scale",
+      "25",
+      "--unit",
+      "mm",
+    ]);
+    expect(first.measurements[0]).toMatchObject({ length: 20, unit: "mm" });
+    expect(second.measurements[0]).toMatchObject({ length: 2, unit: "mm" });
+  });
+
+  it("takes a separate vertical scale", async () => {
+    const [, second] = await measureJson(["--scale", "10", "--scale-y", "5"]);
+    expect(second.measurements[0].length).toBeCloseTo(10);
+  });
+
+  it("only includes the chosen images", async () => {
+    const images = await measureJson(["--image", "second.png"]);
+    expect(images.map((image: { id: string }) => image.id)).toEqual(["b"]);
+  });
+
+  it("writes the table to a file", async () => {
+    const { io, files, output } = createIo({ "p.json": PROJECT });
+    expect(await run(["measure", "p.json", "--output", "out.csv"], io)).toBe(0);
+    expect(files["out.csv"]).toMatch(/^image,id,name,/);
+    expect(output.stdout).toBe("");
+    expect(output.stderr).toBe("Wrote 2 measurements to out.csv\n");
+  });
+
+  it("reports a file that can't be read", async () => {
+    const { io, output } = createIo();
+    expect(await run(["measure", "missing.json"], io)).toBe(1);
+    expect(output.stderr).toMatch(/^px2cm: ENOENT/);
+    expect(output.stderr).not.toContain(USAGE);
+  });
+});
+
+describe("validate", () => {
+  it("summarizes each file and fails if any is invalid", async () => {
+    const { io, output } = createIo({
+      "p.json": PROJECT,
+      "bad.json": "{}",
+    });
+    expect(await run(["validate", "p.json", "bad.json"], io)).toBe(1);
+    expect(output.stdout).toBe(
+      "p.json: OK, 2 images, 2 measurements\n" +
+        "bad.json: The file is not a px2cm project.\n",
+    );
+  });
+
+  it("succeeds when every file is valid", async () => {
+    const { io } = createIo({ "p.json": PROJECT });
+    expect(await run(["validate", "p.json"], io)).toBe(0);
+  });
+});
+
+describe("usage errors", () => {
+  it.each([
+    [[]],
+    [["frobnicate"]],
+    [["measure"]],
+    [["measure", "p.json", "--format", "xml"]],
+    [["measure", "p.json", "--unit", "furlong"]],
+    [["measure", "p.json", "--scale", "-1"]],
+    [["measure", "p.json", "--scale-y", "2"]],
+    [["measure", "p.json", "--image", "nope.png"]],
+    [["measure", "p.json", "--colour"]],
+    [["validate"]],
+  ])("rejects %j with the usage", async (args) => {
+    const { io, output } = createIo({ "p.json": PROJECT });
+    expect(await run(args, io)).toBe(2);
+    expect(output.stderr).toContain(USAGE);
+  });
+
+  it("prints the usage on request", async () => {
+    const { io, output } = createIo();
+    expect(await run(["--help"], io)).toBe(0);
+    expect(output.stdout).toBe(USAGE);
+  });
+});
@@ -0,0 +1,204 @@
+/// <reference types="node" />
+
+// The px2cm command-line tool. It reads and writes through the given io
+// rather than Node's file system and process directly, so it can be run
+// from tests.
+
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_UNIT,
+  getMeasuredImages,
+  getMeasurementRows,
+  isUnit,
+  measurementsToCsv,
+  measurementsToJson,
+  parseProjectFile,
+  toCentimeters,
+  withScale,
+  type MeasuredImage,
+  type Unit,
+} from "../core";
+
+export interface CliIo {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, contents: string) => Promise<void>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+export const USAGE = `Usage:
+  px2cm measure <project.px2cm.json> [options]
+    Print a table of every measurement in a project file.
+      --format <csv|json>  Table format (default: csv)
+      --output <file>      Write the table to a file instead
+      --image <name>       Only include the image with this name or id; can
+                           be given more than once
+      --unit <unit>        Report lengths in mm, cm, m, in, ft or px instead
+                           of each image's own unit
+      --scale <number>     Measure at this many pixels per unit (per cm for
+                           px) instead of each image's calibration
+      --scale-y <number>   Pixels per unit along the Y axis, for images with
+                           non-square pixels; needs --scale
+
+  px2cm validate <file>...
+    Check that project files can be opened and summarize their contents.
+`;
+
+// Wrong use of the tool, as opposed to a problem with the files it reads
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const parsePositive = (value: string | undefined, option: string) => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new UsageError(`--${option} must be a positive number.`);
+  }
+  return parsed;
+};
+
+const countMeasurements = (images: MeasuredImage[]): number =>
+  images.reduce((count, image) => count + getMeasurementRows(image).length, 0);
+
+const measure = async (args: string[], io: CliIo): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "csv" },
+      output: { type: "string" },
+      image: { type: "string", multiple: true },
+      unit: { type: "string" },
+      scale: { type: "string" },
+      "scale-y": { type: "string" },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    throw new UsageError("measure takes exactly one project file.");
+  }
+  const { format } = values;
+  if (format !== "csv" && format !== "json") {
+    throw new UsageError(`Unknown format "${format}"; use csv or json.`);
+  }
+  const unit = values.unit;
+  if (unit !== undefined && !isUnit(unit)) {
+    throw new UsageError(`Unknown unit "${unit}".`);
+  }
+  const scale = parsePositive(values.scale, "scale");
+  const scaleY = parsePositive(values["scale-y"], "scale-y");
+  if (scaleY !== undefined && scale === undefined) {
+    throw new UsageError("--scale-y needs --scale.");
+  }
+
+  const project = parseProjectFile(await io.readFile(positionals[0]));
+  let images = getMeasuredImages(project);
+
+  if (values.image) {
+    const wanted = values.image;
+    const missing = wanted.filter(
+      (key) => !images.some((image) => image.name === key || image.id === key),
+    );
+    if (missing.length > 0) {
+      throw new UsageError(`No image named "${missing.join('", "')}".`);
+    }
+    images = images.filter(
+      (image) => wanted.includes(image.name) || wanted.includes(image.id),
+    );
+  }
+
+  images = images.map((image) => {
+    const imageUnit: Unit = unit ?? image.unit ?? DEFAULT_UNIT;
+    const withUnit = { ...image, unit: imageUnit };
+    if (scale === undefined) return withUnit;
+    // Like the scale input in the app, the scale is given per display unit,
+    // falling back to cm for pixels
+    const centimeters = toCentimeters(1, imageUnit === "px" ? "cm" : imageUnit);
+    return withScale(
+      withUnit,
+      scale / centimeters,
+      scaleY === undefined ? undefined : scaleY / centimeters,
+    );
+  });
+
+  const table =
+    format === "json"
+      ? measurementsToJson(images, project.categories)
+      : measurementsToCsv(images, project.categories);
+  if (values.output === undefined) {
+    io.stdout(format === "json" ? `${table}\n` : table);
+  } else {
+    await io.writeFile(values.output, table);
+    io.stderr(
+      `Wrote ${countMeasurements(images)} measurements to ${values.output}\n`,
+    );
+  }
+  return 0;
+};
+
+const validate = async (args: string[], io: CliIo): Promise<number> => {
+  const { positionals } = parseArgs({ args, allowPositionals: true });
+  if (positionals.length === 0) {
+    throw new UsageError("validate needs at least one file.");
+  }
+
+  let failures = 0;
+  for (const path of positionals) {
+    try {
+      const images = getMeasuredImages(
+        parseProjectFile(await io.readFile(path)),
+      );
+      io.stdout(
+        `${path}: OK, ${images.length} images, ${countMeasurements(images)} measurements\n`,
+      );
+    } catch (error) {
+      failures++;
+      io.stdout(
+        `${path}: ${error instanceof Error ? error.message : String(error)}\n`,
+      );
+    }
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+// Run the tool with the arguments after the program name, and return the
+// exit code: 1 when a file can't be used, 2 when the tool is used wrongly
+export const run = async (args: string[], io: CliIo): Promise<number> => {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case "measure":
+        return await measure(rest, io);
+      case "validate":
+        return await validate(rest, io);
+      case "help":
+      case "--help":
+      case "-h":
+        io.stdout(USAGE);
+        return 0;
+      default:
+        throw new UsageError(
+          command === undefined
+            ? "No command given."
+            : `Unknown command "${command}".`,
+        );
+    }
+  } catch (error) {
+    // Unknown or malformed options are reported by parseArgs as TypeErrors
+    const isUsageError =
+      error instanceof UsageError ||
+      (error instanceof TypeError && "code" in error);
+    io.stderr(
+      `px2cm: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    if (isUsageError) {
+      io.stderr(`\n${USAGE}`);
+      return 2;
+    }
+    return 1;
+  }
+};
@@ -0,0 +1,185 @@
+import {
+  LINE_STYLES,
+  createCategoryId,
+  getNextCategoryColor,
+  isLineStyle,
+  type MeasurementCategory,
+} from "../utils/categories";
+import "./CategoryPanel.css";
+
+interface CategoryPanelProps {
+  categories: MeasurementCategory[];
+  onCategoriesChange: (categories: MeasurementCategory[]) => void;
+  // Category new measurements are put in, if any
+  activeCategoryId: string | undefined;
+  onActiveCategoryChange: (id: string | undefined) => void;
+}
+
+function CategoryPanel({
+  categories,
+  onCategoriesChange,
+  activeCategoryId,
+  onActiveCategoryChange,
+}: CategoryPanelProps) {
+  const updateCategory = (
+    id: string,
+    changes: Partial<Omit<MeasurementCategory, "id">>,
+  ) => {
+    onCategoriesChange(
+      categories.map((category) =>
+        category.id === id ? { ...category, ...changes } : category,
+      ),
+    );
+  };
+
+  const handleAdd = () => {
+    const category: MeasurementCategory = {
+      id: createCategoryId(),
+      name: `Category ${categories.length + 1}`,
+      color: getNextCategoryColor(categories),
+      lineStyle: "solid",
+      visible: true,
+      locked: false,
+    };
+    onCategoriesChange([...categories, category]);
+    onActiveCategoryChange(category.id);
+  };
+
+  const handleDelete = (category: MeasurementCategory) => {
+    if (
+      confirm(
+        `Are you sure you want to delete the category "${category.name}"? Its measurements will be kept without a category.`,
+      )
+    ) {
+      onCategoriesChange(categories.filter((c) => c.id !== category.id));
+      if (activeCategoryId === category.id) onActiveCategoryChange(undefined);
+    }
+  };
+
+  return (
+    <div className="category-panel">
+      <div className="category-panel-header">
+        <h3>Categories</h3>
+        <button onClick={handleAdd} title="Add category">
+          +
+        </button>
+      </div>
+      {categories.length === 0 ? (
+        <div className="category-panel-empty">
+          Add categories to give groups of measurements their own color and line
+          style
+        </div>
+      ) : (
+        <>
+          <ul>
+            {categories.map((category) => (
+              <li
+                key={category.id}
+                className={`category-item ${category.visible ? "" : "hidden"}`}
+              >
+                <input
+                  type="color"
+                  value={category.color}
+                  onChange={(e) =>
+                    updateCategory(category.id, { color: e.target.value })
+                  }
+                  aria-label={`${category.name} color`}
+                />
+                <input
+                  key={category.name}
+                  className="category-name"
+                  defaultValue={category.name}
+                  aria-label="Category name"
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== category.name) {
+                      updateCategory(category.id, { name });
+                    } else {
+                      e.target.value = category.name;
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                    if (e.key === "Escape") {
+                      e.currentTarget.value = category.name;
+                      e.currentTarget.blur();
+                    }
+                    // Keep shortcuts such as Delete or C from reaching the
+                    // viewer
+                    e.stopPropagation();
+                  }}
+                />
+                <select
+                  value={category.lineStyle}
+                  onChange={(e) => {
+                    if (isLineStyle(e.target.value)) {
+                      updateCategory(category.id, {
+                        lineStyle: e.target.value,
+                      });
+                    }
+                  }}
+                  aria-label={`${category.name} line style`}
+                >
+                  {Object.entries(LINE_STYLES).map(([style, label]) => (
+                    <option key={style} value={style}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <div className="category-item-actions">
+                  <button
+                    className={category.visible ? "" : "active"}
+                    onClick={() =>
+                      updateCategory(category.id, {
+                        visible: !category.visible,
+                      })
+                    }
+                    title={category.visible ? "Hide" : "Show"}
+                    aria-pressed={!category.visible}
+                  >
+                    {category.visible ? "👁" : "◌"}
+                  </button>
+                  <button
+                    className={category.locked ? "active" : ""}
+                    onClick={() =>
+                      updateCategory(category.id, { locked: !category.locked })
+                    }
+                    title={category.locked ? "Unlock" : "Lock"}
+                    aria-pressed={category.locked}
+                  >
+                    {category.locked ? "🔒" : "🔓"}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(category)}
+                    className="category-delete"
+                    title="Delete category"
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <label className="category-active">
+            New measurements
+            <select
+              value={activeCategoryId ?? ""}
+              onChange={(e) =>
+                onActiveCategoryChange(e.target.value || undefined)
+              }
+            >
+              <option value="">No category</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CategoryPanel;
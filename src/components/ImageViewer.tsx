@@ -1,23 +1,133 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_SCALE,
+  DEFAULT_UNIT,
+  REAL_UNITS,
+  UNITS,
+  formatAngle,
+  formatArea,
+  formatLength,
+  isUnit,
+  toCentimeters,
+  type Unit,
+} from "../utils/units";
+import {
+  angleBetweenLines,
+  calculateDistance,
+  distanceToLineSegment,
+  isConvexQuad,
+  snapToAngle,
+  type Angle,
+  type Circle,
+  type Line,
+  type Point,
+  type Polygon,
+  type Polyline,
+} from "../utils/geometry";
+import {
+  calculateScale,
+  getCalibrationPixels,
+  type CalibrationAxis,
+} from "../utils/calibration";
+import {
+  renderAnnotatedPng,
+  renderAnnotatedSvg,
+} from "../utils/annotatedExport";
+import { downloadBlob } from "../utils/download";
+import { findSnapTarget, type SnapTarget } from "../utils/edgeSnap";
+import { BUILT_IN_PRESETS, type ReferencePreset } from "../utils/presets";
+import {
+  findCategory,
+  isCategoryEditable,
+  type MeasurementCategory,
+} from "../utils/categories";
+import { getScaleBar, getUnitScale } from "../utils/overlays";
+import {
+  createPerspectiveCalibration,
+  measureDistance,
+  pointAtDistance,
+  type PerspectiveCalibration,
+} from "../utils/measure";
+import {
+  DEFAULT_PLACEMENT_PRECISION,
+  EXTRAPOLATION_WARNING_RATIO,
+  angleWithUncertainty,
+  circleWithUncertainty,
+  createUncertaintyModel,
+  distanceWithUncertainty,
+  getCircleExtent,
+  isExtrapolated,
+  pathLengthWithUncertainty,
+  polygonAreaWithUncertainty,
+} from "../utils/uncertainty";
+import {
+  createMeasurementId,
+  getMeasurementName,
+  type MeasuredImage,
+  type Measurement,
+  type MeasurementInfo,
+  type MeasurementKind,
+} from "../utils/measurements";
+import {
+  findEditableAt,
+  findHandleAt,
+  findMeasurementAt,
+  getEditablePoints,
+  getHandleLabels,
+  getNextHandle,
+  isRefEditable,
+  isSameRef,
+  type EditableRef,
+  type EditableSelection,
+  type MeasurementRef,
+} from "../utils/editableShapes";
+import {
+  TOOLS,
+  VERTEX_TOOLS,
+  createVertexShape,
+  getSnapOrigin,
+  isShapeComplete,
+  type Tool,
+} from "../utils/tools";
+import {
+  SCALE_BAR_LABEL_OFFSET,
+  SCALE_BAR_THICKNESS,
+  ZOOM_WINDOW_SIZE,
+  drawRuler,
+  drawViewerScene,
+  drawZoomWindow,
+} from "../utils/viewerCanvas";
+import { useCanvasKeyboard } from "../hooks/useCanvasKeyboard";
+import {
+  TOUCH_HIT_FACTOR,
+  TOUCH_SLOP,
+  useTouchInput,
+} from "../hooks/useTouchInput";
+import { FIT_VIEW, useViewport } from "../hooks/useViewport";
+import MeasurementList, { type MeasurementListItem } from "./MeasurementList";
+import CategoryPanel from "./CategoryPanel";
+import Inspector from "./Inspector";
 import "./ImageViewer.css";
 
-interface Point {
-  x: number;
-  y: number;
+interface ImageFile extends MeasuredImage {
+  dataUrl: string;
 }
 
-interface Line {
-  start: Point;
-  end: Point;
+// Shown for measurements that span much more than the calibration reference
+const EXTRAPOLATION_WARNING = `Spans over ${EXTRAPOLATION_WARNING_RATIO}× the calibration reference, which magnifies its error`;
+
+interface DragState {
+  target: EditableRef;
+  // Index of the dragged handle, or null when moving the whole shape
+  handleIndex: number | null;
+  origin: Point;
+  originalPoints: Point[];
 }
 
-interface ImageFile {
-  id: string;
-  dataUrl: string;
-  name: string;
-  scale?: number;
-  calibrationLine?: Line;
-  measurementLines?: Line[];
+interface ContextMenuState {
+  x: number;
+  y: number;
+  target: MeasurementRef;
 }
 
 interface ImageViewerProps {
@@ -26,159 +136,652 @@ interface ImageViewerProps {
     imageId: string,
     scale: number,
     calibrationLine?: Line,
+    calibrationLength?: number,
+    calibrationTolerance?: number,
+  ) => void;
+  // Set or, with undefined, remove the separate Y axis scale
+  onScaleYUpdate: (
+    imageId: string,
+    scaleY: number | undefined,
+    calibrationLineY?: Line,
+    calibrationLengthY?: number,
+    calibrationToleranceY?: number,
+  ) => void;
+  onPrecisionUpdate: (imageId: string, precision: number) => void;
+  // Set or, with undefined, remove the perspective calibration
+  onPerspectiveUpdate: (
+    imageId: string,
+    perspective: PerspectiveCalibration | undefined,
+  ) => void;
+  // The user's own reference objects, offered after the built-in ones
+  customPresets: ReferencePreset[];
+  categories: MeasurementCategory[];
+  onCategoriesChange: (categories: MeasurementCategory[]) => void;
+  onMeasurementsUpdate: (
+    imageId: string,
+    measurements: Measurement<Line>[],
   ) => void;
-  onMeasurementsUpdate: (imageId: string, measurements: Line[]) => void;
+  onUnitUpdate: (imageId: string, unit: Unit) => void;
+  onPathsUpdate: (imageId: string, paths: Measurement<Polyline>[]) => void;
+  onPolygonsUpdate: (imageId: string, polygons: Measurement<Polygon>[]) => void;
+  onAnglesUpdate: (imageId: string, angles: Measurement<Angle>[]) => void;
+  onCirclesUpdate: (imageId: string, circles: Measurement<Circle>[]) => void;
+  // Called around drags so the whole drag becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
 }
 
-// Helper function to calculate distance between two points
-const calculateDistance = (p1: Point, p2: Point): number => {
-  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
-};
-
-// Helper function to calculate distance from a point to a line segment
-const distanceToLineSegment = (
-  point: Point,
-  lineStart: Point,
-  lineEnd: Point,
-): number => {
-  const A = point.x - lineStart.x;
-  const B = point.y - lineStart.y;
-  const C = lineEnd.x - lineStart.x;
-  const D = lineEnd.y - lineStart.y;
-
-  const dot = A * C + B * D;
-  const lenSq = C * C + D * D;
-  let param = -1;
-
-  if (lenSq !== 0) param = dot / lenSq;
-
-  let xx, yy;
-
-  if (param < 0) {
-    xx = lineStart.x;
-    yy = lineStart.y;
-  } else if (param > 1) {
-    xx = lineEnd.x;
-    yy = lineEnd.y;
-  } else {
-    xx = lineStart.x + param * C;
-    yy = lineStart.y + param * D;
-  }
-
-  const dx = point.x - xx;
-  const dy = point.y - yy;
-  return Math.sqrt(dx * dx + dy * dy);
-};
-
-// Helper function to snap point to nearest 45-degree angle
-const snapToAngle = (start: Point, end: Point): Point => {
-  const dx = end.x - start.x;
-  const dy = end.y - start.y;
-  const distance = Math.sqrt(dx * dx + dy * dy);
+// How far from the cursor edge snapping looks, in screen pixels, and the
+// limits of that distance in image pixels
+const SNAP_DISTANCE = 12;
+const MIN_SNAP_RADIUS = 3;
+const MAX_SNAP_RADIUS = 40;
 
-  // Calculate angle in radians
-  const angle = Math.atan2(dy, dx);
+// Presses this close together in time, and in place, make a double press
+const DOUBLE_PRESS_MS = 400;
 
-  // Convert to degrees and snap to nearest 45°
-  const degrees = angle * (180 / Math.PI);
-  const snappedDegrees = Math.round(degrees / 45) * 45;
+// Pen pressure from which a point goes exactly where the pen touches,
+// skipping edge snapping as Alt does
+const FIRM_PEN_PRESSURE = 0.8;
 
-  // Convert back to radians
-  const snappedRadians = snappedDegrees * (Math.PI / 180);
-
-  // Calculate new end point
-  return {
-    x: start.x + distance * Math.cos(snappedRadians),
-    y: start.y + distance * Math.sin(snappedRadians),
-  };
-};
+// Why the grid, rulers and scale bar are off for perspective calibrations
+const PERSPECTIVE_OVERLAY_NOTE =
+  "Not available with a perspective calibration, where the scale changes across the image";
 
 function ImageViewer({
   selectedImage,
   onScaleUpdate,
+  onScaleYUpdate,
+  onPrecisionUpdate,
+  onPerspectiveUpdate,
+  customPresets,
+  categories,
+  onCategoriesChange,
   onMeasurementsUpdate,
+  onUnitUpdate,
+  onPathsUpdate,
+  onPolygonsUpdate,
+  onAnglesUpdate,
+  onCirclesUpdate,
+  onEditStart,
+  onEditEnd,
 }: ImageViewerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const zoomCanvasRef = useRef<HTMLCanvasElement>(null);
+  const rulerTopRef = useRef<HTMLCanvasElement>(null);
+  const rulerLeftRef = useRef<HTMLCanvasElement>(null);
+  // The image's own pixels, read back for edge snapping
+  const pixelContextRef = useRef<CanvasRenderingContext2D | null>(null);
 
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [endPoint, setEndPoint] = useState<Point | null>(null);
-  const [isShiftPressed, setIsShiftPressed] = useState(false);
   const [isCalibrationMode, setIsCalibrationMode] = useState(false);
   const [showCalibrationInput, setShowCalibrationInput] = useState(false);
   const [tempCalibrationDistance, setTempCalibrationDistance] = useState("");
-  const [hoveredLineIndex, setHoveredLineIndex] = useState<number | null>(null);
+  // Tolerance of the reference's known size, in the calibration unit
+  const [tempCalibrationTolerance, setTempCalibrationTolerance] = useState("");
+  const [tempCalibrationAxis, setTempCalibrationAxis] =
+    useState<CalibrationAxis>("x");
+  // Corners of the reference rectangle placed so far in perspective mode
+  const [isPerspectiveMode, setIsPerspectiveMode] = useState(false);
+  const [perspectivePoints, setPerspectivePoints] = useState<Point[]>([]);
+  const [showPerspectiveInput, setShowPerspectiveInput] = useState(false);
+  const [tempPerspectiveWidth, setTempPerspectiveWidth] = useState("");
+  const [tempPerspectiveHeight, setTempPerspectiveHeight] = useState("");
+  const [tempCalibrationUnit, setTempCalibrationUnit] =
+    useState<Unit>(DEFAULT_UNIT);
+  const [hoveredMeasurement, setHoveredMeasurement] =
+    useState<EditableRef | null>(null);
+  const [selectedMeasurement, setSelectedMeasurement] =
+    useState<EditableSelection | null>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  // Category new measurements are put in, if any
+  const [activeCategoryId, setActiveCategoryId] = useState<
+    string | undefined
+  >();
+  const [activeTool, setActiveTool] = useState<Tool>("line");
+  const [pathPoints, setPathPoints] = useState<Point[]>([]);
+  const [pickedLineIndex, setPickedLineIndex] = useState<number | null>(null);
   const [mousePosition, setMousePosition] = useState<Point | null>(null);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const {
+    view,
+    setView,
+    fitRatio,
+    containerSize,
+    isPanning,
+    startPan,
+    movePan,
+    endPan,
+    isPinching,
+    startPinch,
+    movePinch,
+    endPinch,
+  } = useViewport(containerRef, canvasRef, selectedImage?.id, imageLoaded);
+  const {
+    touchesRef,
+    touchPressRef,
+    isPenNearRef,
+    isTouchInput,
+    setIsTouchInput,
+    touchLoupe,
+    showTouchLoupe,
+    hideTouchLoupe,
+    startLongPress,
+    clearLongPress,
+    isLongPressPending,
+  } = useTouchInput(containerRef);
+  // Time and place of the last press, for telling double presses apart
+  const lastPressRef = useRef<{ time: number; point: Point } | null>(null);
+  // Set while arrow keys are held on a shape, so the nudges are one undo step
+  const isNudgingRef = useRef(false);
+  const [includeScaleBar, setIncludeScaleBar] = useState(true);
+  const [isEdgeSnapEnabled, setIsEdgeSnapEnabled] = useState(false);
+  // On-screen stand-in for holding Shift, for tablets without a keyboard
+  const [isAngleSnapEnabled, setIsAngleSnapEnabled] = useState(false);
+  // Image feature the point under the cursor would snap to
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null);
+  const [isGridVisible, setIsGridVisible] = useState(false);
+  const [areRulersVisible, setAreRulersVisible] = useState(false);
+  const [isScaleBarVisible, setIsScaleBarVisible] = useState(false);
+  // Bottom left corner of the scale bar in image pixels, once it was moved
+  const [scaleBarPosition, setScaleBarPosition] = useState<Point | null>(null);
+  // Offset from the pointer to the scale bar's corner while it is dragged
+  const [scaleBarDrag, setScaleBarDrag] = useState<Point | null>(null);
 
   // Get scale, calibration line, and measurements from the selected image, or use defaults
-  const scale = selectedImage?.scale || 96;
+  const scale = selectedImage?.scale || DEFAULT_SCALE;
+  const scaleY = selectedImage?.scaleY;
+  // With a Y scale the axes are calibrated separately
+  const isAnisotropic = scaleY !== undefined;
+  const unit = selectedImage?.unit || DEFAULT_UNIT;
+  // The scale input is expressed in the display unit, falling back to cm for pixels
+  const scaleUnit: Unit = unit === "px" ? DEFAULT_UNIT : unit;
   const calibrationLine = selectedImage?.calibrationLine || null;
-  const measurementLines = selectedImage?.measurementLines || [];
+  const calibrationLineY = selectedImage?.calibrationLineY || null;
+  const perspective = selectedImage?.perspective;
+  const placementPrecision =
+    selectedImage?.placementPrecision ?? DEFAULT_PLACEMENT_PRECISION;
+  // All lengths, areas and angles are measured through this model, which
+  // also estimates how uncertain they are
+  const uncertaintyModel = useMemo(
+    () => createUncertaintyModel(selectedImage ?? {}),
+    [selectedImage],
+  );
+  // Image pixels per unit for the grid, rulers and scale bar; null under
+  // perspective, where it changes across the image
+  const unitScale = useMemo(
+    () => (selectedImage ? getUnitScale(selectedImage) : null),
+    [selectedImage],
+  );
+  // The scale bar as it is drawn; like in exports, there is none for pixels
+  const scaleBar = useMemo(() => {
+    const canvas = canvasRef.current;
+    if (!isScaleBarVisible || !unitScale || unit === "px") return null;
+    if (!canvas || !imageLoaded) return null;
+    return getScaleBar(
+      unitScale,
+      canvas.width,
+      canvas.height,
+      scaleBarPosition,
+    );
+  }, [isScaleBarVisible, unitScale, unit, imageLoaded, scaleBarPosition]);
+  const measurementLines = useMemo(
+    () => selectedImage?.measurementLines || [],
+    [selectedImage?.measurementLines],
+  );
+  const measurementPaths = useMemo(
+    () => selectedImage?.measurementPaths || [],
+    [selectedImage?.measurementPaths],
+  );
+  const measurementPolygons = useMemo(
+    () => selectedImage?.measurementPolygons || [],
+    [selectedImage?.measurementPolygons],
+  );
+  const measurementAngles = useMemo(
+    () => selectedImage?.measurementAngles || [],
+    [selectedImage?.measurementAngles],
+  );
+  const measurementCircles = useMemo(
+    () => selectedImage?.measurementCircles || [],
+    [selectedImage?.measurementCircles],
+  );
+  // Identity of a new measurement, in the chosen category while it exists
+  const newCategoryId = findCategory(categories, activeCategoryId)?.id;
+  const newMeasurementInfo = useCallback(
+    (): MeasurementInfo =>
+      newCategoryId === undefined
+        ? { id: createMeasurementId() }
+        : { id: createMeasurementId(), category: newCategoryId },
+    [newCategoryId],
+  );
+  // Whether the selected shape can be moved or deleted from the canvas
+  const isSelectionEditable =
+    !!selectedImage &&
+    !!selectedMeasurement &&
+    isRefEditable(selectedImage, categories, selectedMeasurement);
+  // Rows of the measurement list, grouped by kind in stored order
+  const measurementItems = useMemo(() => {
+    const items: MeasurementListItem[] = [];
+    const addItems = <T extends MeasurementInfo>(
+      kind: MeasurementKind,
+      list: T[],
+      describe: (measurement: T) => string,
+      getExtent: (measurement: T) => Point[],
+    ) => {
+      list.forEach((measurement, index) => {
+        items.push({
+          kind,
+          index,
+          id: measurement.id,
+          name: getMeasurementName(kind, index, measurement),
+          value: describe(measurement),
+          warning: isExtrapolated(uncertaintyModel, getExtent(measurement))
+            ? EXTRAPOLATION_WARNING
+            : undefined,
+          notes: measurement.notes ?? "",
+          category: findCategory(categories, measurement.category),
+          canMoveUp: index > 0,
+          canMoveDown: index < list.length - 1,
+        });
+      });
+    };
 
-  // Shift key detection, 'C' key for calibration toggle, and 'X' key for undo
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Shift") {
-        setIsShiftPressed(true);
-      }
-      if (e.key === "c" || e.key === "C") {
-        // Don't toggle if user is typing in an input field
-        if (
-          e.target instanceof HTMLInputElement ||
-          e.target instanceof HTMLTextAreaElement
-        ) {
-          return;
+    addItems(
+      "line",
+      measurementLines,
+      (line) => {
+        const measured = distanceWithUncertainty(
+          uncertaintyModel,
+          line.start,
+          line.end,
+        );
+        return formatLength(measured.value, unit, measured.uncertainty);
+      },
+      (line) => [line.start, line.end],
+    );
+    addItems(
+      "path",
+      measurementPaths,
+      (path) => {
+        const measured = pathLengthWithUncertainty(
+          uncertaintyModel,
+          path.points,
+        );
+        return formatLength(measured.value, unit, measured.uncertainty);
+      },
+      (path) => path.points,
+    );
+    addItems(
+      "polygon",
+      measurementPolygons,
+      (polygon) => {
+        const measured = polygonAreaWithUncertainty(
+          uncertaintyModel,
+          polygon.points,
+        );
+        return formatArea(measured.value, unit, measured.uncertainty);
+      },
+      (polygon) => polygon.points,
+    );
+    // Angles don't depend on the reference's size, so they're never flagged
+    addItems(
+      "angle",
+      measurementAngles,
+      (angle) => {
+        const measured = angleWithUncertainty(
+          uncertaintyModel,
+          angle.vertex,
+          angle.start,
+          angle.end,
+        );
+        return formatAngle(measured.value, measured.uncertainty);
+      },
+      () => [],
+    );
+    addItems(
+      "circle",
+      measurementCircles,
+      (circle) => {
+        const { diameter } = circleWithUncertainty(
+          uncertaintyModel,
+          circle.center,
+          circle.radius,
+        );
+        return `⌀ ${formatLength(diameter.value, unit, diameter.uncertainty)}`;
+      },
+      (circle) => getCircleExtent(circle.center, circle.radius),
+    );
+    return items;
+  }, [
+    measurementLines,
+    measurementPaths,
+    measurementPolygons,
+    measurementAngles,
+    measurementCircles,
+    categories,
+    uncertaintyModel,
+    unit,
+  ]);
+  const isVertexTool = VERTEX_TOOLS.includes(activeTool);
+
+  // Commit the path, polygon, angle or circle being drawn vertex by vertex
+  const finishVertexShape = useCallback(
+    (points: Point[]) => {
+      const shape = createVertexShape(activeTool, points);
+      if (selectedImage && shape) {
+        const imageId = selectedImage.id;
+        const info = newMeasurementInfo();
+        switch (shape.kind) {
+          case "path":
+            onPathsUpdate(imageId, [
+              ...measurementPaths,
+              { ...info, ...shape.shape },
+            ]);
+            break;
+          case "polygon":
+            onPolygonsUpdate(imageId, [
+              ...measurementPolygons,
+              { ...info, ...shape.shape },
+            ]);
+            break;
+          case "angle":
+            onAnglesUpdate(imageId, [
+              ...measurementAngles,
+              { ...info, ...shape.shape },
+            ]);
+            break;
+          case "circle":
+            onCirclesUpdate(imageId, [
+              ...measurementCircles,
+              { ...info, ...shape.shape },
+            ]);
+            break;
         }
-        setIsCalibrationMode((prev) => !prev);
-        // Clear current drawing when toggling
-        setStartPoint(null);
-        setEndPoint(null);
       }
-      if (e.key === "x" || e.key === "X") {
-        // Don't undo if user is typing in an input field
-        if (
-          e.target instanceof HTMLInputElement ||
-          e.target instanceof HTMLTextAreaElement
-        ) {
-          return;
+      setPathPoints([]);
+    },
+    [
+      activeTool,
+      selectedImage,
+      measurementPaths,
+      measurementPolygons,
+      measurementAngles,
+      measurementCircles,
+      newMeasurementInfo,
+      onPathsUpdate,
+      onPolygonsUpdate,
+      onAnglesUpdate,
+      onCirclesUpdate,
+    ],
+  );
+
+  const deleteMeasurement = useCallback(
+    (imageId: string, ref: MeasurementRef) => {
+      const keep = (_: unknown, index: number) => index !== ref.index;
+      switch (ref.kind) {
+        case "line":
+          onMeasurementsUpdate(imageId, measurementLines.filter(keep));
+          break;
+        case "path":
+          onPathsUpdate(imageId, measurementPaths.filter(keep));
+          break;
+        case "polygon":
+          onPolygonsUpdate(imageId, measurementPolygons.filter(keep));
+          break;
+        case "angle":
+          onAnglesUpdate(imageId, measurementAngles.filter(keep));
+          break;
+        case "circle":
+          onCirclesUpdate(imageId, measurementCircles.filter(keep));
+          break;
+      }
+      setSelectedMeasurement(null);
+      setHoveredMeasurement(null);
+    },
+    [
+      measurementLines,
+      measurementPaths,
+      measurementPolygons,
+      measurementAngles,
+      measurementCircles,
+      onMeasurementsUpdate,
+      onPathsUpdate,
+      onPolygonsUpdate,
+      onAnglesUpdate,
+      onCirclesUpdate,
+    ],
+  );
+
+  // Write back the dragged points of a shape to the image
+  const updateEditablePoints = (target: EditableRef, points: Point[]) => {
+    if (!selectedImage) return;
+    const imageId = selectedImage.id;
+    const replace = <T,>(items: T[], update: (item: T) => T) =>
+      items.map((item, index) =>
+        index === target.index ? update(item) : item,
+      );
+
+    switch (target.kind) {
+      case "calibration": {
+        // Keep the known length and recompute the scale from the new pixel length
+        const newLine = { start: points[0], end: points[1] };
+        if (target.index === 1) {
+          const knownLength = selectedImage.calibrationLengthY ?? 0;
+          const pixelDistance = getCalibrationPixels(newLine, "y");
+          if (knownLength > 0 && pixelDistance > 0) {
+            onScaleYUpdate(
+              imageId,
+              pixelDistance / knownLength,
+              newLine,
+              knownLength,
+              selectedImage.calibrationToleranceY,
+            );
+          }
+          break;
         }
-        // Remove last measurement line (LIFO - Last In, First Out)
-        if (selectedImage && measurementLines.length > 0) {
-          const updatedLines = measurementLines.slice(0, -1);
-          onMeasurementsUpdate(selectedImage.id, updatedLines);
+        const axis = isAnisotropic ? "x" : null;
+        const knownLength =
+          selectedImage.calibrationLength ??
+          (calibrationLine
+            ? getCalibrationPixels(calibrationLine, axis) / scale
+            : 0);
+        const pixelDistance = getCalibrationPixels(newLine, axis);
+        if (knownLength > 0 && pixelDistance > 0) {
+          onScaleUpdate(
+            imageId,
+            pixelDistance / knownLength,
+            newLine,
+            knownLength,
+            selectedImage.calibrationTolerance,
+          );
         }
+        break;
       }
-    };
+      case "line":
+        onMeasurementsUpdate(
+          imageId,
+          replace(measurementLines, (line) => ({
+            ...line,
+            start: points[0],
+            end: points[1],
+          })),
+        );
+        break;
+      case "path":
+        onPathsUpdate(
+          imageId,
+          replace(measurementPaths, (path) => ({ ...path, points })),
+        );
+        break;
+      case "polygon":
+        onPolygonsUpdate(
+          imageId,
+          replace(measurementPolygons, (polygon) => ({ ...polygon, points })),
+        );
+        break;
+      case "angle":
+        onAnglesUpdate(
+          imageId,
+          replace(measurementAngles, (angle) => ({
+            ...angle,
+            vertex: points[0],
+            start: points[1],
+            end: points[2],
+          })),
+        );
+        break;
+      case "circle":
+        onCirclesUpdate(
+          imageId,
+          replace(measurementCircles, (circle) => ({
+            ...circle,
+            center: points[0],
+            radius: calculateDistance(points[0], points[1]),
+          })),
+        );
+        break;
+    }
+  };
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.key === "Shift") {
-        setIsShiftPressed(false);
-      }
-    };
+  const deleteSelection = () => {
+    if (
+      pathPoints.length === 0 &&
+      selectedImage &&
+      selectedMeasurement &&
+      selectedMeasurement.kind !== "calibration" &&
+      isSelectionEditable
+    ) {
+      deleteMeasurement(selectedImage.id, {
+        kind: selectedMeasurement.kind,
+        index: selectedMeasurement.index,
+      });
+    }
+  };
+
+  const handleCalibrationKey = () => {
+    setIsCalibrationMode((prev) => !prev);
+    setIsPerspectiveMode(false);
+    setPerspectivePoints([]);
+    // Clear current drawing when toggling
+    setStartPoint(null);
+    setEndPoint(null);
+    setPathPoints([]);
+    setPickedLineIndex(null);
+  };
+
+  const handleEscape = () => {
+    setPickedLineIndex(null);
+    setIsPerspectiveMode(false);
+    setPerspectivePoints([]);
+    setSelectedMeasurement(null);
+    setContextMenu(null);
+    if (pathPoints.length > 0) {
+      setPathPoints([]);
+    }
+  };
 
-    window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("keyup", handleKeyUp);
+  // Arrow keys nudge the selected handle, the selected shape or the last
+  // vertex being placed; held down on a shape, the nudges are one undo step
+  const nudge = (offset: Point) => {
+    const move = (point: Point) => ({
+      x: point.x + offset.x,
+      y: point.y + offset.y,
+    });
 
-    return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("keyup", handleKeyUp);
-    };
-  }, [selectedImage, measurementLines, onMeasurementsUpdate]);
+    if (pathPoints.length > 0) {
+      setPathPoints([
+        ...pathPoints.slice(0, -1),
+        move(pathPoints[pathPoints.length - 1]),
+      ]);
+      return true;
+    }
+    if (!selectedImage || !selectedMeasurement || dragState) return false;
+    if (!isSelectionEditable) return false;
+
+    const points = getEditablePoints(selectedImage, selectedMeasurement);
+    const handle = selectedMeasurement.handle;
+    if (!isNudgingRef.current) {
+      isNudgingRef.current = true;
+      onEditStart();
+    }
+    updateEditablePoints(
+      selectedMeasurement,
+      points.map((point, index) =>
+        handle === undefined || index === handle ? move(point) : point,
+      ),
+    );
+    return true;
+  };
+
+  const endNudge = () => {
+    if (!isNudgingRef.current) return;
+    isNudgingRef.current = false;
+    onEditEnd();
+  };
+
+  // Tab steps through the handles of every shape. Past the last handle (or
+  // before the first) the selection is cleared and Tab moves the focus on,
+  // so it can't get stuck on the image
+  const cycleHandles = (backwards: boolean) => {
+    if (!selectedImage || pathPoints.length > 0) return false;
+    const next = getNextHandle(
+      selectedImage,
+      categories,
+      selectedMeasurement,
+      backwards,
+    );
+    setSelectedMeasurement(next);
+    return next !== null;
+  };
+
+  const { isShiftPressed, isSpacePressed } = useCanvasKeyboard(containerRef, {
+    shortcuts: {
+      c: handleCalibrationKey,
+      C: handleCalibrationKey,
+      Escape: handleEscape,
+      Delete: deleteSelection,
+      // Remove the last vertex of the shape being drawn, if any
+      Backspace: () =>
+        pathPoints.length > 0
+          ? setPathPoints(pathPoints.slice(0, -1))
+          : deleteSelection(),
+      Enter: () => {
+        if (pathPoints.length > 0) finishVertexShape(pathPoints);
+      },
+    },
+    onNudge: nudge,
+    onNudgeEnd: endNudge,
+    onCycleHandles: cycleHandles,
+  });
+  // Keep lines at 45° steps, with Shift or the on-screen toggle
+  const isAngleSnap = isShiftPressed || isAngleSnapEnabled;
 
   // Reset drawing state when image changes
   useEffect(() => {
     setStartPoint(null);
     setEndPoint(null);
+    setPathPoints([]);
+    setPickedLineIndex(null);
+    setSelectedMeasurement(null);
+    setHoveredMeasurement(null);
+    setDragState(null);
+    setContextMenu(null);
     setIsDrawing(false);
     setIsCalibrationMode(false);
+    setIsPerspectiveMode(false);
+    setPerspectivePoints([]);
     setImageLoaded(false);
+    setSnapTarget(null);
+    setScaleBarPosition(null);
+    setScaleBarDrag(null);
   }, [selectedImage?.id]);
 
-  // Draw the measurement line on canvas
+  // Draw the measurements, the shape being drawn and the overlays on canvas
   useEffect(() => {
     const canvas = canvasRef.current;
     const image = imageRef.current;
@@ -191,190 +794,72 @@ function ImageViewer({
     const rect = canvas.getBoundingClientRect();
     const scaleX = canvas.width / rect.width;
     const scaleY = canvas.height / rect.height;
-    const displayScale = Math.max(scaleX, scaleY);
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Helper function to draw perpendicular endpoint markers
-    const drawEndpointMarker = (
-      point: Point,
-      angle: number,
-      color: string,
-      baseLineWidth: number = 2,
-    ) => {
-      const markerLength = 10 * displayScale; // Scale marker length (reduced from 16)
-      const perpAngle = angle + Math.PI / 2;
-
-      ctx.strokeStyle = color;
-      ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
-      ctx.beginPath();
-      ctx.moveTo(
-        point.x - (markerLength / 2) * Math.cos(perpAngle),
-        point.y - (markerLength / 2) * Math.sin(perpAngle),
-      );
-      ctx.lineTo(
-        point.x + (markerLength / 2) * Math.cos(perpAngle),
-        point.y + (markerLength / 2) * Math.sin(perpAngle),
-      );
-      ctx.stroke();
-    };
-
-    // Helper function to draw text label offset to the side of a line
-    const drawLineLabel = (line: Line, color: string) => {
-      const distance = calculateDistance(line.start, line.end);
-      const cmDistance = distance / scale;
 
-      // Calculate midpoint
-      const midX = (line.start.x + line.end.x) / 2;
-      const midY = (line.start.y + line.end.y) / 2;
-
-      // Calculate angle of the line
-      const angle = Math.atan2(
-        line.end.y - line.start.y,
-        line.end.x - line.start.x,
-      );
-
-      // Calculate perpendicular offset (to the side of the line)
-      const offsetDistance = 30 * displayScale; // Scale offset distance (reduced from 40)
-      const perpAngle = angle + Math.PI / 2; // Perpendicular angle
-
-      // Position label to the side of the line
-      const labelX = midX + offsetDistance * Math.cos(perpAngle);
-      const labelY = midY + offsetDistance * Math.sin(perpAngle);
-
-      // Format text
-      const text = `${cmDistance.toFixed(2)} cm`;
-
-      // Set text style - scale font size based on display scale
-      const fontSize = 12 * displayScale; // Scale font size (reduced from 16)
-      ctx.font = `bold ${fontSize}px system-ui, Arial, sans-serif`;
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-
-      // Draw background rectangle for better readability
-      const metrics = ctx.measureText(text);
-      const padding = 4 * displayScale; // Scale padding (reduced from 6)
-      const bgWidth = metrics.width + padding * 2;
-      const bgHeight = 18 * displayScale; // Scale background height (reduced from 24)
-
-      ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
-      ctx.fillRect(
-        labelX - bgWidth / 2,
-        labelY - bgHeight / 2,
-        bgWidth,
-        bgHeight,
-      );
-
-      // Draw text
-      ctx.fillStyle = color;
-      ctx.fillText(text, labelX, labelY);
-    };
-
-    // Draw calibration line first (if exists) in blue
-    if (calibrationLine) {
-      const baseLineWidth = 2; // Base line width (will be scaled, reduced from 4)
-      ctx.strokeStyle = "#4444ff";
-      ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
-      ctx.lineCap = "round";
-
-      // Calculate angle for perpendicular markers
-      const angle = Math.atan2(
-        calibrationLine.end.y - calibrationLine.start.y,
-        calibrationLine.end.x - calibrationLine.start.x,
-      );
-
-      // Draw line
-      ctx.beginPath();
-      ctx.moveTo(calibrationLine.start.x, calibrationLine.start.y);
-      ctx.lineTo(calibrationLine.end.x, calibrationLine.end.y);
-      ctx.stroke();
-
-      // Draw start point marker
-      drawEndpointMarker(
-        calibrationLine.start,
-        angle,
-        "#4444ff",
-        baseLineWidth,
-      );
-
-      // Draw end point marker
-      drawEndpointMarker(calibrationLine.end, angle, "#4444ff", baseLineWidth);
-    }
-
-    // Draw all saved measurement lines with labels
-    measurementLines.forEach((line, index) => {
-      const isHovered = hoveredLineIndex === index;
-      const color = isHovered ? "#ff8888" : "#ff4444";
-      const baseLineWidth = isHovered ? 3 : 2; // Base line width (will be scaled, reduced from 5/4)
-
-      ctx.strokeStyle = color;
-      ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
-      ctx.lineCap = "round";
-
-      // Calculate angle for perpendicular markers
-      const angle = Math.atan2(
-        line.end.y - line.start.y,
-        line.end.x - line.start.x,
-      );
-
-      // Draw line
-      ctx.beginPath();
-      ctx.moveTo(line.start.x, line.start.y);
-      ctx.lineTo(line.end.x, line.end.y);
-      ctx.stroke();
-
-      // Draw start point marker
-      drawEndpointMarker(line.start, angle, color, baseLineWidth);
-
-      // Draw end point marker
-      drawEndpointMarker(line.end, angle, color, baseLineWidth);
-
-      // Draw label with distance
-      drawLineLabel(line, isHovered ? "#ffff00" : "#ffffff");
+    drawViewerScene(ctx, {
+      image: selectedImage,
+      categories,
+      uncertaintyModel,
+      unit,
+      displayScale: Math.max(scaleX, scaleY),
+      gridScale: isGridVisible ? unitScale : null,
+      scaleBar,
+      hovered: hoveredMeasurement,
+      selected: selectedMeasurement,
+      pickedLineIndex,
+      activeTool,
+      isCalibrationMode,
+      isAngleSnap,
+      isPerspectiveMode,
+      perspectivePoints,
+      pathPoints,
+      startPoint,
+      endPoint,
+      pointer: mousePosition,
+      snapTarget,
     });
 
-    // Draw current measurement line being drawn (if exists)
-    if (startPoint && endPoint) {
-      const color = isCalibrationMode ? "#4444ff" : "#ff4444";
-      const baseLineWidth = 2; // Base line width (will be scaled, reduced from 4)
-      ctx.strokeStyle = color;
-      ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
-      ctx.lineCap = "round";
-
-      // Calculate angle for perpendicular markers
-      const angle = Math.atan2(
-        endPoint.y - startPoint.y,
-        endPoint.x - startPoint.x,
+    // Line the rulers up with the image as it is currently shown
+    const rulerTop = rulerTopRef.current;
+    const rulerLeft = rulerLeftRef.current;
+    if (areRulersVisible && unitScale && rulerTop && rulerLeft) {
+      drawRuler(
+        rulerTop,
+        "x",
+        rect.left - rulerTop.getBoundingClientRect().left,
+        unitScale.x / scaleX,
+      );
+      drawRuler(
+        rulerLeft,
+        "y",
+        rect.top - rulerLeft.getBoundingClientRect().top,
+        unitScale.y / scaleY,
       );
-
-      // Draw line
-      ctx.beginPath();
-      ctx.moveTo(startPoint.x, startPoint.y);
-      ctx.lineTo(endPoint.x, endPoint.y);
-      ctx.stroke();
-
-      // Draw start point marker
-      drawEndpointMarker(startPoint, angle, color, baseLineWidth);
-
-      // Draw end point marker
-      drawEndpointMarker(endPoint, angle, color, baseLineWidth);
-
-      // Draw label for current line if not in calibration mode
-      if (!isCalibrationMode) {
-        drawLineLabel({ start: startPoint, end: endPoint }, "#ffffff");
-      }
     }
   }, [
     startPoint,
     endPoint,
     selectedImage,
-    scale,
-    calibrationLine,
-    measurementLines,
+    uncertaintyModel,
+    unit,
+    pathPoints,
+    mousePosition,
+    snapTarget,
+    isAngleSnap,
     isCalibrationMode,
-    hoveredLineIndex,
+    categories,
+    activeTool,
+    hoveredMeasurement,
+    selectedMeasurement,
+    pickedLineIndex,
+    isPerspectiveMode,
+    perspectivePoints,
     imageLoaded,
+    view,
+    isGridVisible,
+    areRulersVisible,
+    unitScale,
+    scaleBar,
+    containerSize,
   ]);
 
   // Render zoom window
@@ -382,81 +867,25 @@ function ImageViewer({
     const zoomCanvas = zoomCanvasRef.current;
     const mainCanvas = canvasRef.current;
     const image = imageRef.current;
-
     if (!zoomCanvas || !mainCanvas || !image || !mousePosition) return;
 
-    const zoomCtx = zoomCanvas.getContext("2d");
-    const mainCtx = mainCanvas.getContext("2d");
-    if (!zoomCtx || !mainCtx) return;
-
-    // Zoom settings
-    const zoomFactor = 3;
-    const zoomSize = 150; // Size of zoom window
-    const sourceSize = zoomSize / zoomFactor; // Size of area to copy from source
-
-    // Clear zoom canvas
-    zoomCtx.clearRect(0, 0, zoomCanvas.width, zoomCanvas.height);
-
-    // Calculate source coordinates (centered on mouse)
-    const sourceX = Math.max(
-      0,
-      Math.min(mousePosition.x - sourceSize / 2, mainCanvas.width - sourceSize),
-    );
-    const sourceY = Math.max(
-      0,
-      Math.min(
-        mousePosition.y - sourceSize / 2,
-        mainCanvas.height - sourceSize,
-      ),
-    );
-
-    // Create an offscreen canvas to combine image + measurements
-    const offscreenCanvas = document.createElement("canvas");
-    offscreenCanvas.width = mainCanvas.width;
-    offscreenCanvas.height = mainCanvas.height;
-    const offscreenCtx = offscreenCanvas.getContext("2d");
-
-    if (!offscreenCtx) return;
-
-    // Draw only the image (without measurements for clearer zoom view)
-    offscreenCtx.drawImage(image, 0, 0, mainCanvas.width, mainCanvas.height);
-
-    // Now draw the zoomed portion from the composite
-    zoomCtx.drawImage(
-      offscreenCanvas,
-      sourceX,
-      sourceY,
-      sourceSize,
-      sourceSize,
-      0,
-      0,
-      zoomSize,
-      zoomSize,
+    drawZoomWindow(
+      zoomCanvas,
+      image,
+      mainCanvas.width,
+      mainCanvas.height,
+      mousePosition,
+      snapTarget,
     );
-
-    // Draw crosshair in the center
-    zoomCtx.strokeStyle = "#00ff00";
-    zoomCtx.lineWidth = 1;
-    const center = zoomSize / 2;
-
-    // Horizontal line
-    zoomCtx.beginPath();
-    zoomCtx.moveTo(0, center);
-    zoomCtx.lineTo(zoomSize, center);
-    zoomCtx.stroke();
-
-    // Vertical line
-    zoomCtx.beginPath();
-    zoomCtx.moveTo(center, 0);
-    zoomCtx.lineTo(center, zoomSize);
-    zoomCtx.stroke();
-
-    // Draw center dot
-    zoomCtx.fillStyle = "#00ff00";
-    zoomCtx.beginPath();
-    zoomCtx.arc(center, center, 2, 0, Math.PI * 2);
-    zoomCtx.fill();
-  }, [mousePosition, startPoint, endPoint, measurementLines, calibrationLine]);
+  }, [
+    mousePosition,
+    snapTarget,
+    touchLoupe,
+    startPoint,
+    endPoint,
+    measurementLines,
+    calibrationLine,
+  ]);
 
   // Handle image load to set canvas size
   const handleImageLoad = () => {
@@ -467,6 +896,36 @@ function ImageViewer({
     canvas.width = image.naturalWidth;
     canvas.height = image.naturalHeight;
     setImageLoaded(true);
+
+    // Keep a copy of the image's pixels to look for edges in
+    const pixelCanvas = document.createElement("canvas");
+    pixelCanvas.width = image.naturalWidth;
+    pixelCanvas.height = image.naturalHeight;
+    const pixelContext = pixelCanvas.getContext("2d", {
+      willReadFrequently: true,
+    });
+    pixelContext?.drawImage(image, 0, 0);
+    pixelContextRef.current = pixelContext;
+  };
+
+  // Find the image feature to snap a point to, unless snapping is off or
+  // held off with Alt or a firm press of the pen
+  const findSnap = (
+    point: Point,
+    event: React.PointerEvent<HTMLCanvasElement>,
+  ): SnapTarget | null => {
+    const pixelContext = pixelContextRef.current;
+    const isFirmPenPress =
+      event.pointerType === "pen" && event.pressure >= FIRM_PEN_PRESSURE;
+    if (!isEdgeSnapEnabled || event.altKey || isFirmPenPress || !pixelContext) {
+      return null;
+    }
+    // Search a fixed distance on screen, within limits in image pixels
+    const radius = Math.min(
+      MAX_SNAP_RADIUS,
+      Math.max(MIN_SNAP_RADIUS, SNAP_DISTANCE * getDisplayScale()),
+    );
+    return findSnapTarget(pixelContext, point, radius);
   };
 
   const getCanvasCoordinates = (
@@ -485,67 +944,633 @@ function ImageViewer({
     };
   };
 
-  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  // Measurements of hidden or locked categories are passed over on the canvas
+  const isPickable = (measurement: MeasurementInfo) =>
+    isCategoryEditable(findCategory(categories, measurement.category));
+
+  // Shapes of the selected image under a point, within a distance in image
+  // pixels
+  const findMeasurementUnder = (point: Point, threshold: number) =>
+    selectedImage
+      ? findMeasurementAt(selectedImage, categories, point, threshold)
+      : null;
+
+  const findEditableUnder = (point: Point, threshold: number) =>
+    selectedImage
+      ? findEditableAt(selectedImage, categories, point, threshold)
+      : null;
+
+  const findHandleUnder = (point: Point, threshold: number) =>
+    selectedImage
+      ? findHandleAt(
+          selectedImage,
+          categories,
+          selectedMeasurement,
+          point,
+          threshold,
+        )
+      : null;
+
+  // Apply a change to one kind of measurement list of the selected image
+  const updateMeasurementList = (
+    kind: MeasurementKind,
+    update: <T extends MeasurementInfo>(items: T[]) => T[],
+  ) => {
+    if (!selectedImage) return;
+    const imageId = selectedImage.id;
+    switch (kind) {
+      case "line":
+        onMeasurementsUpdate(imageId, update(measurementLines));
+        break;
+      case "path":
+        onPathsUpdate(imageId, update(measurementPaths));
+        break;
+      case "polygon":
+        onPolygonsUpdate(imageId, update(measurementPolygons));
+        break;
+      case "angle":
+        onAnglesUpdate(imageId, update(measurementAngles));
+        break;
+      case "circle":
+        onCirclesUpdate(imageId, update(measurementCircles));
+        break;
+    }
+  };
+
+  const updateMeasurementInfo = (
+    item: MeasurementListItem,
+    changes: Partial<Omit<MeasurementInfo, "id">>,
+  ) => {
+    updateMeasurementList(item.kind, (items) =>
+      items.map((measurement, index) =>
+        index === item.index ? { ...measurement, ...changes } : measurement,
+      ),
+    );
+  };
+
+  const handleMeasurementRename = (item: MeasurementListItem, name: string) => {
+    // Clearing the name falls back to the generated one
+    updateMeasurementInfo(item, { name: name.trim() || undefined });
+  };
+
+  const handleMeasurementNotesChange = (
+    item: MeasurementListItem,
+    notes: string,
+  ) => {
+    updateMeasurementInfo(item, { notes: notes.trim() ? notes : undefined });
+  };
+
+  const handleMeasurementCategoryChange = (
+    item: MeasurementListItem,
+    categoryId: string | undefined,
+  ) => {
+    updateMeasurementInfo(item, { category: categoryId });
+  };
+
+  const handleMeasurementMove = (item: MeasurementListItem, offset: -1 | 1) => {
+    const target = item.index + offset;
+    updateMeasurementList(item.kind, (items) => {
+      if (target < 0 || target >= items.length) return items;
+      const reordered = [...items];
+      [reordered[item.index], reordered[target]] = [
+        reordered[target],
+        reordered[item.index],
+      ];
+      return reordered;
+    });
+    // Keep the moved measurement selected at its new position
+    setSelectedMeasurement({ kind: item.kind, index: target });
+  };
+
+  const selectedItem = measurementItems.find((item) =>
+    isSameRef(selectedMeasurement, { kind: item.kind, index: item.index }),
+  );
+  const selectedMeasurementId = selectedItem?.id ?? null;
+
+  // Points of the selected shape that can be edited; none while its category
+  // is hidden or locked
+  const selectedPoints =
+    selectedImage && selectedMeasurement && isSelectionEditable
+      ? getEditablePoints(selectedImage, selectedMeasurement)
+      : [];
+
+  const updateSelectedPoint = (index: number, point: Point) => {
+    if (!selectedMeasurement) return;
+    updateEditablePoints(
+      selectedMeasurement,
+      selectedPoints.map((current, i) => (i === index ? point : current)),
+    );
+  };
+
+  // Length in the display unit and direction of the selected line, with 0°
+  // pointing right and angles growing counterclockwise as on screen
+  const selectedLine =
+    selectedMeasurement?.kind === "line" && selectedPoints.length === 2
+      ? {
+          length: measureDistance(
+            uncertaintyModel.space,
+            selectedPoints[0],
+            selectedPoints[1],
+          ),
+          unit: uncertaintyModel.space.unit,
+          angle:
+            (Math.atan2(
+              selectedPoints[0].y - selectedPoints[1].y,
+              selectedPoints[1].x - selectedPoints[0].x,
+            ) *
+              180) /
+            Math.PI,
+        }
+      : undefined;
+
+  // Move the end point along the line until it is the given length away
+  const handleLineLengthChange = (length: number) => {
+    const [start, end] = selectedPoints;
+    const newEnd = pointAtDistance(uncertaintyModel.space, start, end, length);
+    if (newEnd) updateSelectedPoint(1, newEnd);
+  };
+
+  // Turn the line about its start point, keeping its length in pixels
+  const handleLineAngleChange = (angle: number) => {
+    const [start, end] = selectedPoints;
+    const pixels = calculateDistance(start, end);
+    const radians = (angle * Math.PI) / 180;
+    updateSelectedPoint(1, {
+      x: start.x + pixels * Math.cos(radians),
+      y: start.y - pixels * Math.sin(radians),
+    });
+  };
+
+  // Whether a point is on the scale bar or its label
+  const isOnScaleBar = (point: Point, threshold: number): boolean => {
+    if (!scaleBar) return false;
+    const { origin, width } = scaleBar;
+    const top =
+      origin.y -
+      (SCALE_BAR_THICKNESS + SCALE_BAR_LABEL_OFFSET * 2) * getDisplayScale();
+    return (
+      point.x >= origin.x - threshold &&
+      point.x <= origin.x + width + threshold &&
+      point.y >= top &&
+      point.y <= origin.y + threshold
+    );
+  };
+
+  // Ratio between natural image pixels and displayed pixels
+  const getDisplayScale = (): number => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return 1;
+    return Math.max(canvas.width / rect.width, canvas.height / rect.height);
+  };
+
+  // Drop the line being drawn or the drag in progress, such as when a second
+  // finger turns a touch into a gesture
+  const abandonPointerAction = () => {
+    clearLongPress();
+    touchPressRef.current = null;
+    hideTouchLoupe();
+    setMousePosition(null);
+    setSnapTarget(null);
+    endPan();
+    setScaleBarDrag(null);
+    if (isDrawing) {
+      setIsDrawing(false);
+      setStartPoint(null);
+      setEndPoint(null);
+    }
+    if (dragState) {
+      updateEditablePoints(dragState.target, dragState.originalPoints);
+      setDragState(null);
+      onEditEnd();
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    setContextMenu(null);
+    // Working on the image gives it the keyboard focus for its shortcuts
+    containerRef.current?.focus({ preventScroll: true });
+    const isTouch = event.pointerType === "touch";
+    setIsTouchInput(isTouch);
+    if (isTouch) {
+      // A palm resting on the screen while using the pen does nothing
+      if (isPenNearRef.current) return;
+      touchesRef.current.set(event.pointerId, {
+        x: event.clientX,
+        y: event.clientY,
+      });
+      if (touchesRef.current.size === 2) {
+        abandonPointerAction();
+        const [a, b] = [...touchesRef.current.values()];
+        startPinch(a, b);
+      }
+      if (touchesRef.current.size > 1) return;
+    } else if (event.pointerType === "pen") {
+      isPenNearRef.current = true;
+    }
+    // The right button, or the pen's barrel button, only opens the context menu
+    if (event.button === 2) return;
+    // Keep following the pointer when it is dragged off the canvas
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    // Middle button or space + drag pans the view
+    if (event.button === 1 || (event.button === 0 && isSpacePressed)) {
+      event.preventDefault();
+      startPan(event.clientX, event.clientY);
+      return;
+    }
+
     const point = getCanvasCoordinates(event);
     setMousePosition(point);
 
-    // Check if clicking near an existing line (to delete it)
-    const clickThreshold = 10; // pixels
-    const clickedLineIndex = measurementLines.findIndex(
-      (line) =>
-        distanceToLineSegment(point, line.start, line.end) < clickThreshold,
+    // The pen's eraser end deletes the measurement it touches
+    if (event.pointerType === "pen" && event.button === 5) {
+      const target = findMeasurementUnder(point, 10 * getDisplayScale());
+      if (target && selectedImage) {
+        deleteMeasurement(selectedImage.id, target);
+      }
+      return;
+    }
+
+    if (isTouch) {
+      // Points placed one at a time go down when the finger lifts, so a long
+      // press can bring up the loupe to aim them; shapes under the finger
+      // are still picked up straight away
+      const hitScale = getDisplayScale() * TOUCH_HIT_FACTOR;
+      const picksShape =
+        !isCalibrationMode &&
+        !isPerspectiveMode &&
+        pathPoints.length === 0 &&
+        (findHandleUnder(point, 8 * hitScale) !== null ||
+          findEditableUnder(point, 10 * hitScale) !== null);
+      const deferred =
+        isPerspectiveMode ||
+        (isVertexTool && !isCalibrationMode && !picksShape);
+      touchPressRef.current = {
+        pointerId: event.pointerId,
+        origin: { x: event.clientX, y: event.clientY },
+        deferred,
+        moved: false,
+      };
+      startLongPress(event.clientX, event.clientY);
+      if (deferred) return;
+    }
+
+    // New points go on the snapped image feature; existing shapes are still
+    // picked at the pointer
+    handlePress(
+      point,
+      findSnap(point, event)?.point ?? point,
+      isTouch ? TOUCH_HIT_FACTOR : 1,
     );
+  };
+
+  // Act on a press at a point: place a point of the shape being drawn, or
+  // pick up an existing shape. Shapes are hit within a distance on screen
+  // multiplied by hitFactor, larger for fingers.
+  const handlePress = (point: Point, placedPoint: Point, hitFactor: number) => {
+    // Collect the corners of the perspective reference rectangle
+    if (isPerspectiveMode) {
+      if (showPerspectiveInput) return;
+      const corners = [...perspectivePoints, placedPoint];
+      if (corners.length < 4) {
+        setPerspectivePoints(corners);
+        return;
+      }
+      if (!isConvexQuad(corners)) {
+        alert(
+          "The corners must outline the rectangle: click them in order around its edge.",
+        );
+        setPerspectivePoints([]);
+        return;
+      }
+      setPerspectivePoints(corners);
+      setTempCalibrationUnit(scaleUnit);
+      setShowPerspectiveInput(true);
+      return;
+    }
+
+    // Hit-testing distances are in screen pixels, whatever the zoom level
+    const clickThreshold = 10 * getDisplayScale() * hitFactor;
+
+    // Pick up the scale bar to move it
+    if (
+      scaleBar &&
+      !isCalibrationMode &&
+      pathPoints.length === 0 &&
+      isOnScaleBar(point, clickThreshold)
+    ) {
+      setScaleBarDrag({
+        x: scaleBar.origin.x - point.x,
+        y: scaleBar.origin.y - point.y,
+      });
+      return;
+    }
 
-    if (clickedLineIndex !== -1 && !isCalibrationMode && selectedImage) {
-      // Delete the clicked line
-      const updatedLines = measurementLines.filter(
-        (_, index) => index !== clickedLineIndex,
+    // In the angle tool, clicking two existing lines measures the angle between them
+    if (
+      activeTool === "angle" &&
+      !isCalibrationMode &&
+      pathPoints.length === 0 &&
+      selectedImage
+    ) {
+      const lineIndex = measurementLines.findIndex(
+        (line) =>
+          isPickable(line) &&
+          distanceToLineSegment(point, line.start, line.end) < clickThreshold,
       );
-      onMeasurementsUpdate(selectedImage.id, updatedLines);
-      setHoveredLineIndex(null);
+      if (lineIndex !== -1) {
+        if (pickedLineIndex === null || pickedLineIndex === lineIndex) {
+          setPickedLineIndex(lineIndex);
+          return;
+        }
+        const angle = angleBetweenLines(
+          measurementLines[pickedLineIndex],
+          measurementLines[lineIndex],
+        );
+        if (angle) {
+          onAnglesUpdate(selectedImage.id, [
+            ...measurementAngles,
+            { ...newMeasurementInfo(), ...angle },
+          ]);
+        }
+        setPickedLineIndex(null);
+        return;
+      }
+    }
+
+    // Select an existing shape and start dragging it or one of its handles
+    if (!isCalibrationMode && pathPoints.length === 0 && selectedImage) {
+      const handle = findHandleUnder(point, 8 * getDisplayScale() * hitFactor);
+      const target = handle?.target ?? findEditableUnder(point, clickThreshold);
+      if (target) {
+        setSelectedMeasurement({ ...target, handle: handle?.handleIndex });
+        onEditStart();
+        setDragState({
+          target,
+          handleIndex: handle?.handleIndex ?? null,
+          origin: point,
+          originalPoints: getEditablePoints(selectedImage, target),
+        });
+        return;
+      }
+      setSelectedMeasurement(null);
+    }
+
+    if (isVertexTool && !isCalibrationMode) {
+      // The second press of a double press finishes the shape instead
+      const now = performance.now();
+      const lastPress = lastPressRef.current;
+      lastPressRef.current = { time: now, point };
+      if (
+        lastPress &&
+        now - lastPress.time < DOUBLE_PRESS_MS &&
+        calculateDistance(point, lastPress.point) < clickThreshold
+      ) {
+        lastPressRef.current = null;
+        finishVertexShape(pathPoints);
+        return;
+      }
+
+      // Clicking the first vertex closes a polygon
+      if (
+        activeTool === "polygon" &&
+        pathPoints.length >= 3 &&
+        calculateDistance(point, pathPoints[0]) < clickThreshold
+      ) {
+        finishVertexShape(pathPoints);
+        return;
+      }
+
+      // Add a vertex, snapping to 45° steps with Shift or the on-screen toggle
+      const snapOrigin = getSnapOrigin(activeTool, pathPoints);
+      const vertex =
+        snapOrigin && isAngleSnap
+          ? snapToAngle(snapOrigin, point)
+          : placedPoint;
+      const updatedPoints = [...pathPoints, vertex];
+
+      if (isShapeComplete(activeTool, updatedPoints)) {
+        finishVertexShape(updatedPoints);
+        return;
+      }
+      setPathPoints(updatedPoints);
+      setPickedLineIndex(null);
       return;
     }
 
     // Start drawing a new line
-    setStartPoint(point);
-    setEndPoint(point);
+    setStartPoint(placedPoint);
+    setEndPoint(placedPoint);
     setIsDrawing(true);
   };
 
-  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const isTouch = event.pointerType === "touch";
+    setIsTouchInput(isTouch);
+    if (event.pointerType === "pen") {
+      isPenNearRef.current = true;
+    }
+    if (isTouch) {
+      // Ignore fingers that were rejected or are left over from a gesture
+      if (!touchesRef.current.has(event.pointerId)) return;
+      touchesRef.current.set(event.pointerId, {
+        x: event.clientX,
+        y: event.clientY,
+      });
+      if (isPinching) {
+        const [a, b] = [...touchesRef.current.values()];
+        movePinch(a, b);
+        return;
+      }
+      const press = touchPressRef.current;
+      if (press?.pointerId !== event.pointerId) return;
+      if (
+        !press.moved &&
+        calculateDistance(press.origin, {
+          x: event.clientX,
+          y: event.clientY,
+        }) > TOUCH_SLOP
+      ) {
+        press.moved = true;
+        clearLongPress();
+      }
+      // Once the finger moves or has been held, the loupe shows what's
+      // under it
+      if (press.moved || !isLongPressPending()) {
+        showTouchLoupe(event.clientX, event.clientY);
+      }
+    }
+
+    if (isPanning) {
+      movePan(event.clientX, event.clientY);
+      return;
+    }
+
     const point = getCanvasCoordinates(event);
     setMousePosition(point);
 
+    if (scaleBarDrag) {
+      setScaleBarPosition({
+        x: point.x + scaleBarDrag.x,
+        y: point.y + scaleBarDrag.y,
+      });
+      return;
+    }
+
+    // The straight-line constraint takes over from edge snapping
+    const snap = isAngleSnap ? null : findSnap(point, event);
+    setSnapTarget(snap);
+    const placedPoint = snap?.point ?? point;
+
+    if (dragState) {
+      const { target, handleIndex, origin, originalPoints } = dragState;
+
+      // Circles move as a whole when dragged by their center
+      const moveWhole =
+        handleIndex === null || (target.kind === "circle" && handleIndex === 0);
+
+      if (moveWhole) {
+        const dx = point.x - origin.x;
+        const dy = point.y - origin.y;
+        updateEditablePoints(
+          target,
+          originalPoints.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+        );
+      } else {
+        // Two-point lines keep to 45° steps around their other end
+        const isTwoPointLine =
+          target.kind === "line" || target.kind === "calibration";
+        const handlePoint =
+          isAngleSnap && isTwoPointLine
+            ? snapToAngle(originalPoints[1 - handleIndex], point)
+            : placedPoint;
+        updateEditablePoints(
+          target,
+          originalPoints.map((p, index) =>
+            index === handleIndex ? handlePoint : p,
+          ),
+        );
+      }
+      return;
+    }
+
     if (isDrawing && startPoint) {
       // Drawing mode - update end point
-      let adjustedPoint = point;
+      let adjustedPoint = placedPoint;
 
-      // Apply shift constraint if shift is pressed
-      if (isShiftPressed) {
-        adjustedPoint = snapToAngle(startPoint, adjustedPoint);
+      // Keep to 45° steps with Shift or the on-screen toggle
+      if (isAngleSnap) {
+        adjustedPoint = snapToAngle(startPoint, point);
       }
 
       setEndPoint(adjustedPoint);
-    } else if (!isCalibrationMode) {
-      // Not drawing - check for hover over existing lines
-      const hoverThreshold = 10; // pixels
-      const hoveredIndex = measurementLines.findIndex(
-        (line) =>
-          distanceToLineSegment(point, line.start, line.end) < hoverThreshold,
+    } else if (
+      !isCalibrationMode &&
+      !isPerspectiveMode &&
+      pathPoints.length === 0
+    ) {
+      // Not drawing - check for hover over existing shapes and their handles
+      const hoverThreshold = 10 * getDisplayScale(); // screen pixels
+      const handle = findHandleUnder(point, 8 * getDisplayScale());
+      setHoveredMeasurement(
+        handle?.target ?? findEditableUnder(point, hoverThreshold),
       );
+    }
+  };
 
-      setHoveredLineIndex(hoveredIndex !== -1 ? hoveredIndex : null);
+  const handleToolChange = (tool: Tool) => {
+    setActiveTool(tool);
+    setIsCalibrationMode(false);
+    setIsPerspectiveMode(false);
+    setPerspectivePoints([]);
+    // Clear any drawing in progress when switching tools
+    setStartPoint(null);
+    setEndPoint(null);
+    setPathPoints([]);
+    setPickedLineIndex(null);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerType === "touch") {
+      if (!touchesRef.current.delete(event.pointerId)) return;
+      clearLongPress();
+      hideTouchLoupe();
+      if (isPinching) {
+        // The gesture ends with the first finger lifted; the other one
+        // does nothing until it is lifted too
+        endPinch();
+        return;
+      }
+      const press = touchPressRef.current;
+      touchPressRef.current = null;
+      if (press?.pointerId !== event.pointerId) return;
+      if (press.deferred) {
+        const point = getCanvasCoordinates(event);
+        handlePress(
+          point,
+          findSnap(point, event)?.point ?? point,
+          TOUCH_HIT_FACTOR,
+        );
+      }
+      // Nothing is under the finger once it's gone
+      setMousePosition(null);
+      setSnapTarget(null);
     }
+    finishPointerAction();
   };
 
-  const handleMouseUp = () => {
+  // Commit the line being drawn, or end the drag or pan in progress
+  const finishPointerAction = () => {
+    if (isPanning) {
+      endPan();
+      return;
+    }
+
+    if (scaleBarDrag) {
+      setScaleBarDrag(null);
+      return;
+    }
+
+    if (dragState) {
+      setDragState(null);
+      onEditEnd();
+      return;
+    }
+
     if (isDrawing && startPoint && endPoint && selectedImage) {
       if (isCalibrationMode) {
-        // Show input dialog to get known distance for calibration
+        // Show input dialog to get known distance for calibration, guessing
+        // the axis from the line's direction
+        setTempCalibrationUnit(scaleUnit);
+        setTempCalibrationAxis(
+          Math.abs(endPoint.y - startPoint.y) >
+            Math.abs(endPoint.x - startPoint.x)
+            ? "y"
+            : "x",
+        );
         setShowCalibrationInput(true);
+      } else if (activeTool === "circle") {
+        // Add new circle, dragged out from its center, to the list
+        const radius = calculateDistance(startPoint, endPoint);
+        if (radius > 0) {
+          onCirclesUpdate(selectedImage.id, [
+            ...measurementCircles,
+            { ...newMeasurementInfo(), center: startPoint, radius },
+          ]);
+        }
+
+        // Clear current drawing
+        setStartPoint(null);
+        setEndPoint(null);
       } else {
         // Add new measurement line to the list
-        const newLine: Line = { start: startPoint, end: endPoint };
+        const newLine: Measurement<Line> = {
+          ...newMeasurementInfo(),
+          start: startPoint,
+          end: endPoint,
+        };
         const updatedLines = [...measurementLines, newLine];
         onMeasurementsUpdate(selectedImage.id, updatedLines);
 
@@ -557,33 +1582,210 @@ function ImageViewer({
     setIsDrawing(false);
   };
 
-  const handleScaleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // The browser took over the pointer, such as for a system gesture
+  const handlePointerCancel = (
+    event: React.PointerEvent<HTMLCanvasElement>,
+  ) => {
+    touchesRef.current.delete(event.pointerId);
+    if (touchesRef.current.size < 2) {
+      endPinch();
+    }
+    abandonPointerAction();
+  };
+
+  const handlePointerLeave = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    // A pen that leaves the canvas is no longer held over it
+    if (event.pointerType === "pen") {
+      isPenNearRef.current = false;
+    }
+    // Captured pointers only leave once released
+    setMousePosition(null);
+    setSnapTarget(null);
+  };
+
+  const handleContextMenu = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    event.preventDefault();
+    const container = containerRef.current;
+    if (!container || isCalibrationMode || pathPoints.length > 0) return;
+    // A long touch brings up the loupe instead
+    if (touchesRef.current.size > 0) return;
+
+    // Offer to delete the measurement under the cursor
+    const point = getCanvasCoordinates(event);
+    const target = findMeasurementUnder(point, 10 * getDisplayScale());
+    if (!target) {
+      setContextMenu(null);
+      return;
+    }
+
+    const rect = container.getBoundingClientRect();
+    setSelectedMeasurement(target);
+    setContextMenu({
+      x: event.clientX - rect.left + container.scrollLeft,
+      y: event.clientY - rect.top + container.scrollTop,
+      target,
+    });
+  };
+
+  const handleScaleChange = (
+    event: React.ChangeEvent<HTMLInputElement>,
+    axis: CalibrationAxis = "x",
+  ) => {
     const value = parseFloat(event.target.value);
     if (value > 0 && selectedImage) {
-      // Update the scale for this specific image
-      onScaleUpdate(selectedImage.id, value, calibrationLine || undefined);
+      // Convert pixels per display unit back to pixels per cm before storing
+      const pixelsPerCm = value / toCentimeters(1, scaleUnit);
+      if (axis === "y") {
+        onScaleYUpdate(
+          selectedImage.id,
+          pixelsPerCm,
+          calibrationLineY || undefined,
+          selectedImage.calibrationLengthY,
+          selectedImage.calibrationToleranceY,
+        );
+        return;
+      }
+      onScaleUpdate(
+        selectedImage.id,
+        pixelsPerCm,
+        calibrationLine || undefined,
+        selectedImage.calibrationLength,
+        selectedImage.calibrationTolerance,
+      );
+    }
+  };
+
+  const handlePrecisionChange = (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const value = parseFloat(event.target.value);
+    if (value >= 0 && selectedImage) {
+      onPrecisionUpdate(selectedImage.id, value);
+    }
+  };
+
+  // Tolerance entered with a calibration, in cm, or undefined when left empty
+  const getCalibrationTolerance = () => {
+    const tolerance = parseFloat(tempCalibrationTolerance);
+    return tolerance > 0
+      ? toCentimeters(tolerance, tempCalibrationUnit)
+      : undefined;
+  };
+
+  // Switch between one scale and separate scales for each axis; the Y scale
+  // starts out equal to the X scale
+  const handleAnisotropicChange = (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    if (!selectedImage) return;
+    onScaleYUpdate(selectedImage.id, event.target.checked ? scale : undefined);
+  };
+
+  const handleUnitChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    if (isUnit(value) && selectedImage) {
+      onUnitUpdate(selectedImage.id, value);
     }
   };
 
   const toggleCalibrationMode = () => {
     setIsCalibrationMode(!isCalibrationMode);
+    setIsPerspectiveMode(false);
+    setPerspectivePoints([]);
     // Clear current measurement when toggling
     setStartPoint(null);
     setEndPoint(null);
+    setPathPoints([]);
+  };
+
+  const togglePerspectiveMode = () => {
+    setIsPerspectiveMode(!isPerspectiveMode);
+    setPerspectivePoints([]);
+    setIsCalibrationMode(false);
+    setStartPoint(null);
+    setEndPoint(null);
+    setPathPoints([]);
+  };
+
+  const handlePerspectiveSubmit = () => {
+    const width = parseFloat(tempPerspectiveWidth);
+    const height = parseFloat(tempPerspectiveHeight);
+    if (!(width > 0 && height > 0) || !selectedImage) return;
+
+    const calibration = createPerspectiveCalibration(
+      perspectivePoints,
+      toCentimeters(width, tempCalibrationUnit),
+      toCentimeters(height, tempCalibrationUnit),
+      getCalibrationTolerance(),
+    );
+    if (!calibration) {
+      alert("These corners don't define a usable rectangle. Please try again.");
+      handlePerspectiveCancel();
+      return;
+    }
+
+    onPerspectiveUpdate(selectedImage.id, calibration);
+    setShowPerspectiveInput(false);
+    setTempPerspectiveWidth("");
+    setTempPerspectiveHeight("");
+    setTempCalibrationTolerance("");
+    setIsPerspectiveMode(false);
+    setPerspectivePoints([]);
   };
 
-  const handleCalibrationSubmit = () => {
-    const knownDistance = parseFloat(tempCalibrationDistance);
+  const handlePerspectiveCancel = () => {
+    setShowPerspectiveInput(false);
+    setPerspectivePoints([]);
+  };
+
+  // Calibrate from the length entered in the modal, or from a reference
+  // object picked from the presets
+  const handleCalibrationSubmit = (preset?: ReferencePreset) => {
+    const knownDistance = preset
+      ? preset.length
+      : parseFloat(tempCalibrationDistance);
+    const knownUnit = preset ? preset.unit : tempCalibrationUnit;
     if (knownDistance > 0 && startPoint && endPoint && selectedImage) {
-      const pixelDistance = calculateDistance(startPoint, endPoint);
-      const newScale = pixelDistance / knownDistance;
       const newCalibrationLine = { start: startPoint, end: endPoint };
-
-      // Save scale and calibration line to this specific image
-      onScaleUpdate(selectedImage.id, newScale, newCalibrationLine);
+      const axis = isAnisotropic ? tempCalibrationAxis : null;
+      const newScale = calculateScale(
+        newCalibrationLine,
+        knownDistance,
+        knownUnit,
+        axis,
+      );
+      if (newScale === null) {
+        alert(
+          `This line has no ${axis === "y" ? "vertical" : "horizontal"} extent to calibrate from.`,
+        );
+        return;
+      }
+      const knownLength = toCentimeters(knownDistance, knownUnit);
+      const tolerance = getCalibrationTolerance();
+
+      // Save scale, calibration line, its known length and tolerance to this
+      // specific image
+      if (axis === "y") {
+        onScaleYUpdate(
+          selectedImage.id,
+          newScale,
+          newCalibrationLine,
+          knownLength,
+          tolerance,
+        );
+      } else {
+        onScaleUpdate(
+          selectedImage.id,
+          newScale,
+          newCalibrationLine,
+          knownLength,
+          tolerance,
+        );
+      }
 
       setShowCalibrationInput(false);
       setTempCalibrationDistance("");
+      setTempCalibrationTolerance("");
       setIsCalibrationMode(false);
       // Clear measurement points but keep calibration line (now stored in image)
       setStartPoint(null);
@@ -591,13 +1793,40 @@ function ImageViewer({
     }
   };
 
+  // Download the image with its annotations burned in (PNG) or as vectors (SVG)
+  const handleExportImage = async (format: "png" | "svg") => {
+    if (!selectedImage) return;
+
+    const baseName = selectedImage.name.replace(/\.[^.]+$/, "");
+    const options = { includeScaleBar, scaleBarPosition, categories };
+    try {
+      if (format === "png") {
+        const blob = await renderAnnotatedPng(selectedImage, options);
+        downloadBlob(blob, `${baseName}-annotated.png`);
+      } else {
+        const svg = await renderAnnotatedSvg(selectedImage, options);
+        downloadBlob(
+          new Blob([svg], { type: "image/svg+xml" }),
+          `${baseName}-annotated.svg`,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to export annotated image:", error);
+      alert("The annotated image could not be exported.");
+    }
+  };
+
   const handleCalibrationCancel = () => {
     setShowCalibrationInput(false);
     setTempCalibrationDistance("");
+    setTempCalibrationTolerance("");
     setStartPoint(null);
     setEndPoint(null);
   };
 
+  // Image and overlay share the same pan/zoom transform around the container center
+  const stageTransform = `translate(calc(-50% + ${view.panX}px), calc(-50% + ${view.panY}px)) scale(${view.zoom})`;
+
   if (!selectedImage) {
     return (
       <div className="image-viewer empty">
@@ -612,52 +1841,428 @@ function ImageViewer({
   return (
     <div className="image-viewer">
       <div className="controls">
+        <div className="tool-group">
+          {TOOLS.map((tool) => (
+            <button
+              key={tool.id}
+              onClick={() => handleToolChange(tool.id)}
+              className={`tool-button ${activeTool === tool.id && !isCalibrationMode ? "active" : ""}`}
+            >
+              {tool.label}
+            </button>
+          ))}
+        </div>
         <button
           onClick={toggleCalibrationMode}
           className={`calibration-button ${isCalibrationMode ? "active" : ""}`}
         >
           {isCalibrationMode ? "Cancel Calibration" : "Set Scale"}
         </button>
+        <button
+          onClick={togglePerspectiveMode}
+          className={`calibration-button ${isPerspectiveMode ? "active" : ""}`}
+          title="Calibrate from the four corners of a rectangle of known size"
+        >
+          {isPerspectiveMode ? "Cancel Perspective" : "Set Perspective"}
+        </button>
+        {perspective && !isPerspectiveMode && (
+          <button
+            onClick={() => onPerspectiveUpdate(selectedImage.id, undefined)}
+            className="remove-perspective-button"
+            title="Go back to measuring with the scale"
+          >
+            Remove Perspective
+          </button>
+        )}
         <div className="control-group">
-          <label htmlFor="scale-input">Scale (pixels per cm):</label>
+          <label htmlFor="scale-input">
+            {isAnisotropic ? "Scale X" : "Scale"} (pixels per {scaleUnit}):
+          </label>
           <input
             id="scale-input"
             type="number"
-            value={scale}
-            onChange={handleScaleChange}
+            value={parseFloat(
+              (scale * toCentimeters(1, scaleUnit)).toPrecision(10),
+            )}
+            onChange={(e) => handleScaleChange(e)}
             min="1"
             step="0.1"
-            disabled={isCalibrationMode}
+            disabled={isCalibrationMode || !!perspective}
+            title={
+              perspective
+                ? "Measurements use the perspective calibration"
+                : undefined
+            }
+          />
+          {selectedImage.scaleSource === "metadata" && !perspective && (
+            <span
+              className="scale-source-badge"
+              title="Read from the resolution saved in the image file. Set the scale or calibrate to override it."
+            >
+              from file metadata
+            </span>
+          )}
+        </div>
+        {isAnisotropic && (
+          <div className="control-group">
+            <label htmlFor="scale-y-input">Y:</label>
+            <input
+              id="scale-y-input"
+              type="number"
+              value={parseFloat(
+                (scaleY * toCentimeters(1, scaleUnit)).toPrecision(10),
+              )}
+              onChange={(e) => handleScaleChange(e, "y")}
+              min="1"
+              step="0.1"
+              disabled={isCalibrationMode || !!perspective}
+            />
+          </div>
+        )}
+        <div className="control-group">
+          <label title="Calibrate horizontal and vertical distances separately">
+            <input
+              type="checkbox"
+              checked={isAnisotropic}
+              onChange={handleAnisotropicChange}
+              disabled={isCalibrationMode || !!perspective}
+            />
+            Separate X/Y
+          </label>
+        </div>
+        <div className="control-group">
+          <label
+            htmlFor="precision-input"
+            title="How far a placed point may be from where it was meant to be"
+          >
+            Precision (± px):
+          </label>
+          <input
+            id="precision-input"
+            type="number"
+            value={placementPrecision}
+            onChange={handlePrecisionChange}
+            min="0"
+            step="0.5"
           />
         </div>
+        <div className="control-group">
+          <label htmlFor="unit-select">Unit:</label>
+          <select id="unit-select" value={unit} onChange={handleUnitChange}>
+            {(Object.keys(UNITS) as Unit[]).map((option) => (
+              <option key={option} value={option}>
+                {UNITS[option].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label title="Keep lines at 45° steps, like holding Shift">
+            <input
+              type="checkbox"
+              checked={isAngleSnapEnabled}
+              onChange={(e) => setIsAngleSnapEnabled(e.target.checked)}
+            />
+            45° lines
+          </label>
+        </div>
+        <div className="control-group">
+          <label title="Snap new points to nearby edges and corners in the image">
+            <input
+              type="checkbox"
+              checked={isEdgeSnapEnabled}
+              onChange={(e) => {
+                setIsEdgeSnapEnabled(e.target.checked);
+                setSnapTarget(null);
+              }}
+            />
+            Snap to edges
+          </label>
+        </div>
+        <div className="control-group">
+          <label
+            title={
+              unitScale
+                ? "Show lines a round number of units apart"
+                : PERSPECTIVE_OVERLAY_NOTE
+            }
+          >
+            <input
+              type="checkbox"
+              checked={isGridVisible}
+              disabled={!unitScale}
+              onChange={(e) => setIsGridVisible(e.target.checked)}
+            />
+            Grid
+          </label>
+          <label
+            title={
+              unitScale
+                ? "Show rulers along the edges of the view"
+                : PERSPECTIVE_OVERLAY_NOTE
+            }
+          >
+            <input
+              type="checkbox"
+              checked={areRulersVisible}
+              disabled={!unitScale}
+              onChange={(e) => setAreRulersVisible(e.target.checked)}
+            />
+            Rulers
+          </label>
+          <label
+            title={
+              !unitScale
+                ? PERSPECTIVE_OVERLAY_NOTE
+                : unit === "px"
+                  ? "Not available for pixel measurements"
+                  : "Show a scale bar, which can be dragged anywhere on the image"
+            }
+          >
+            <input
+              type="checkbox"
+              checked={isScaleBarVisible}
+              disabled={!unitScale || unit === "px"}
+              onChange={(e) => setIsScaleBarVisible(e.target.checked)}
+            />
+            Scale bar
+          </label>
+        </div>
+        <div className="zoom-controls">
+          <button onClick={() => setView(FIT_VIEW)} title="Fit to window">
+            Fit
+          </button>
+          <button
+            onClick={() => setView({ zoom: 1 / fitRatio, panX: 0, panY: 0 })}
+            title="Actual pixels"
+          >
+            1:1
+          </button>
+          <span className="zoom-level">
+            {Math.round(view.zoom * fitRatio * 100)}%
+          </span>
+        </div>
+        <div className="export-controls">
+          <label title="Add a scale bar to exported images">
+            <input
+              type="checkbox"
+              checked={includeScaleBar}
+              onChange={(e) => setIncludeScaleBar(e.target.checked)}
+            />
+            Scale bar
+          </label>
+          <button
+            onClick={() => handleExportImage("png")}
+            title="Download the image with annotations at full resolution"
+          >
+            Export PNG
+          </button>
+          <button
+            onClick={() => handleExportImage("svg")}
+            title="Download the image with annotations as editable vectors"
+          >
+            Export SVG
+          </button>
+        </div>
         <div className="instruction">
           {isCalibrationMode
             ? "Draw a line of known length, then enter its measurement • Press C to cancel"
-            : "Click and drag to measure • Click on a line to delete it • Press C to calibrate • Press X to undo"}
-          {isShiftPressed && " • Shift: Straight lines"}
+            : isPerspectiveMode
+              ? `Click the corners of a rectangle of known size in order around its edge (${perspectivePoints.length}/4) • The first two corners span its width • Esc to cancel`
+              : activeTool === "polyline"
+                ? "Click to add points • Double-click or Enter to finish • Backspace removes the last point • Esc to cancel"
+                : activeTool === "circle"
+                  ? "Drag from the center to the edge to draw a circle • Delete removes the selected circle"
+                  : activeTool === "circle3"
+                    ? "Click three points on the circumference • Esc to cancel"
+                    : activeTool === "angle"
+                      ? "Click the vertex, then a point on each arm • Or click two lines to measure between them • Esc to cancel"
+                      : activeTool === "polygon"
+                        ? "Click to add corners • Click the first corner, double-click or Enter to close • Backspace removes the last corner • Esc to cancel"
+                        : "Click and drag to measure • Drag a line or its ends to adjust it • Delete or right-click removes the selected line • Arrow keys nudge it, Tab steps through its ends • Press C to calibrate • Press X or Ctrl+Z to undo"}
+          {isShiftPressed
+            ? " • Shift: Straight lines"
+            : isAngleSnapEnabled && " • Straight lines"}
+          {isEdgeSnapEnabled && !isAngleSnap && " • Alt: Don't snap"}
+          {isTouchInput &&
+            " • Pinch to zoom, drag two fingers to pan • Hold to magnify"}
         </div>
       </div>
 
+      {/* Perspective rectangle size modal */}
+      {showPerspectiveInput && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <h3>Set Perspective</h3>
+            <p>What is the size of this rectangle?</p>
+            <div className="modal-input-row">
+              <input
+                type="number"
+                value={tempPerspectiveWidth}
+                onChange={(e) => setTempPerspectiveWidth(e.target.value)}
+                placeholder="Width"
+                aria-label="Width"
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handlePerspectiveSubmit();
+                  if (e.key === "Escape") handlePerspectiveCancel();
+                }}
+              />
+              <span>×</span>
+              <input
+                type="number"
+                value={tempPerspectiveHeight}
+                onChange={(e) => setTempPerspectiveHeight(e.target.value)}
+                placeholder="Height"
+                aria-label="Height"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handlePerspectiveSubmit();
+                  if (e.key === "Escape") handlePerspectiveCancel();
+                }}
+              />
+              <span>±</span>
+              <input
+                type="number"
+                value={tempCalibrationTolerance}
+                onChange={(e) => setTempCalibrationTolerance(e.target.value)}
+                placeholder="Tolerance"
+                aria-label="Tolerance"
+                min="0"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handlePerspectiveSubmit();
+                  if (e.key === "Escape") handlePerspectiveCancel();
+                }}
+              />
+              <select
+                value={tempCalibrationUnit}
+                onChange={(e) => {
+                  if (isUnit(e.target.value)) {
+                    setTempCalibrationUnit(e.target.value);
+                  }
+                }}
+              >
+                {REAL_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="modal-buttons">
+              <button
+                onClick={handlePerspectiveSubmit}
+                className="submit-button"
+              >
+                Set Perspective
+              </button>
+              <button
+                onClick={handlePerspectiveCancel}
+                className="cancel-button"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Calibration input modal */}
       {showCalibrationInput && (
         <div className="modal-overlay">
           <div className="modal">
             <h3>Set Scale</h3>
-            <p>What is the length of this line in centimeters?</p>
-            <input
-              type="number"
-              value={tempCalibrationDistance}
-              onChange={(e) => setTempCalibrationDistance(e.target.value)}
-              placeholder="Enter distance in cm"
-              autoFocus
-              onKeyDown={(e) => {
-                if (e.key === "Enter") handleCalibrationSubmit();
-                if (e.key === "Escape") handleCalibrationCancel();
-              }}
-            />
+            <p>
+              {isAnisotropic
+                ? `What is the ${tempCalibrationAxis === "y" ? "vertical" : "horizontal"} length of this line?`
+                : "What is the length of this line?"}
+            </p>
+            {isAnisotropic && (
+              <div className="modal-input-row">
+                <select
+                  value={tempCalibrationAxis}
+                  onChange={(e) =>
+                    setTempCalibrationAxis(e.target.value === "y" ? "y" : "x")
+                  }
+                  aria-label="Calibrated axis"
+                >
+                  <option value="x">X axis (horizontal)</option>
+                  <option value="y">Y axis (vertical)</option>
+                </select>
+              </div>
+            )}
+            <div className="modal-input-row">
+              <select
+                value=""
+                onChange={(e) => {
+                  const preset = [...BUILT_IN_PRESETS, ...customPresets].find(
+                    (p) => p.id === e.target.value,
+                  );
+                  if (preset) handleCalibrationSubmit(preset);
+                }}
+                aria-label="Reference object"
+              >
+                <option value="">Pick a reference object…</option>
+                <optgroup label="Standard objects">
+                  {BUILT_IN_PRESETS.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name} ({preset.length} {preset.unit})
+                    </option>
+                  ))}
+                </optgroup>
+                {customPresets.length > 0 && (
+                  <optgroup label="My presets">
+                    {customPresets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.name} ({preset.length} {preset.unit})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+            <div className="modal-input-row">
+              <input
+                type="number"
+                value={tempCalibrationDistance}
+                onChange={(e) => setTempCalibrationDistance(e.target.value)}
+                placeholder={`Enter distance in ${tempCalibrationUnit}`}
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCalibrationSubmit();
+                  if (e.key === "Escape") handleCalibrationCancel();
+                }}
+              />
+              <span>±</span>
+              <input
+                type="number"
+                value={tempCalibrationTolerance}
+                onChange={(e) => setTempCalibrationTolerance(e.target.value)}
+                placeholder="Tolerance"
+                aria-label="Tolerance"
+                min="0"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCalibrationSubmit();
+                  if (e.key === "Escape") handleCalibrationCancel();
+                }}
+              />
+              <select
+                value={tempCalibrationUnit}
+                onChange={(e) => {
+                  if (isUnit(e.target.value)) {
+                    setTempCalibrationUnit(e.target.value);
+                  }
+                }}
+              >
+                {REAL_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="modal-buttons">
               <button
-                onClick={handleCalibrationSubmit}
+                onClick={() => handleCalibrationSubmit()}
                 className="submit-button"
               >
                 Set Scale
@@ -672,37 +2277,143 @@ function ImageViewer({
           </div>
         </div>
       )}
-      <div className="canvas-container" ref={containerRef}>
-        <img
-          ref={imageRef}
-          src={selectedImage.dataUrl}
-          alt="Measurement target"
-          onLoad={handleImageLoad}
-          className="measurement-image"
-        />
-        <canvas
-          ref={canvasRef}
-          className="measurement-canvas"
-          style={{
-            cursor: hoveredLineIndex !== null ? "pointer" : "crosshair",
-          }}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={() => {
-            handleMouseUp();
-            setMousePosition(null);
-          }}
-        />
-        {/* Zoom window */}
-        {mousePosition && (
+      <div className="viewer-body">
+        <div
+          className={`canvas-container ${areRulersVisible && unitScale ? "with-rulers" : ""}`}
+          ref={containerRef}
+          tabIndex={0}
+          aria-label="Image measurement area"
+        >
+          <img
+            ref={imageRef}
+            src={selectedImage.dataUrl}
+            alt="Measurement target"
+            onLoad={handleImageLoad}
+            className="measurement-image"
+            style={{ transform: stageTransform }}
+          />
           <canvas
-            ref={zoomCanvasRef}
-            className="zoom-window"
-            width={150}
-            height={150}
+            ref={canvasRef}
+            className="measurement-canvas"
+            style={{
+              transform: stageTransform,
+              cursor:
+                dragState || isPanning || scaleBarDrag
+                  ? "grabbing"
+                  : isSpacePressed
+                    ? "grab"
+                    : hoveredMeasurement !== null ||
+                        (mousePosition &&
+                          isOnScaleBar(mousePosition, 10 * getDisplayScale()))
+                      ? "move"
+                      : "crosshair",
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+            onPointerLeave={handlePointerLeave}
+            onContextMenu={handleContextMenu}
           />
-        )}
+          {/* Context menu for the right-clicked measurement */}
+          {contextMenu && (
+            <div
+              className="context-menu"
+              style={{ left: contextMenu.x, top: contextMenu.y }}
+            >
+              <button
+                onClick={() => {
+                  deleteMeasurement(selectedImage.id, contextMenu.target);
+                  setContextMenu(null);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          )}
+          {/* Zoom window, or for touch a loupe next to the finger */}
+          {mousePosition && (!isTouchInput || touchLoupe) && (
+            <canvas
+              ref={zoomCanvasRef}
+              className={`zoom-window ${touchLoupe ? "touch" : ""}`}
+              style={
+                touchLoupe
+                  ? { left: touchLoupe.x, top: touchLoupe.y }
+                  : undefined
+              }
+              width={ZOOM_WINDOW_SIZE}
+              height={ZOOM_WINDOW_SIZE}
+            />
+          )}
+          {/* Rulers in the image's unit along the top and left edges */}
+          {areRulersVisible && unitScale && (
+            <>
+              <div className="ruler-corner">{unit}</div>
+              <canvas ref={rulerTopRef} className="ruler ruler-top" />
+              <canvas ref={rulerLeftRef} className="ruler ruler-left" />
+            </>
+          )}
+          {/* Coordinates of the selected shape, for exact placement */}
+          {selectedMeasurement && selectedPoints.length > 0 && (
+            <Inspector
+              title={
+                selectedMeasurement.kind === "calibration"
+                  ? selectedMeasurement.index === 1
+                    ? "Calibration line Y"
+                    : "Calibration line"
+                  : (selectedItem?.name ?? "")
+              }
+              points={getHandleLabels(
+                selectedMeasurement.kind,
+                selectedPoints.length,
+              ).map((label, index) => ({
+                label,
+                point: selectedPoints[index],
+              }))}
+              activeIndex={selectedMeasurement.handle ?? null}
+              onActiveChange={(handle) =>
+                setSelectedMeasurement({ ...selectedMeasurement, handle })
+              }
+              onPointChange={updateSelectedPoint}
+              line={selectedLine}
+              onLengthChange={handleLineLengthChange}
+              onAngleChange={handleLineAngleChange}
+              onEditStart={onEditStart}
+              onEditEnd={onEditEnd}
+            />
+          )}
+        </div>
+        <div className="viewer-side">
+          <CategoryPanel
+            categories={categories}
+            onCategoriesChange={onCategoriesChange}
+            activeCategoryId={newCategoryId}
+            onActiveCategoryChange={setActiveCategoryId}
+          />
+          <MeasurementList
+            items={measurementItems}
+            categories={categories}
+            selectedId={selectedMeasurementId}
+            onSelect={(item) =>
+              setSelectedMeasurement({ kind: item.kind, index: item.index })
+            }
+            onHover={(item) =>
+              setHoveredMeasurement(
+                item ? { kind: item.kind, index: item.index } : null,
+              )
+            }
+            onRename={handleMeasurementRename}
+            onNotesChange={handleMeasurementNotesChange}
+            onCategoryChange={handleMeasurementCategoryChange}
+            onMove={handleMeasurementMove}
+            onDelete={(item) =>
+              deleteMeasurement(selectedImage.id, {
+                kind: item.kind,
+                index: item.index,
+              })
+            }
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import type { Point } from "../utils/geometry";
+import type { Unit } from "../utils/units";
+import "./Inspector.css";
+
+export interface InspectorPoint {
+  label: string;
+  point: Point;
+}
+
+// Length in the display unit and direction in degrees of a selected line
+export interface InspectorLine {
+  length: number;
+  unit: Unit;
+  angle: number;
+}
+
+interface InspectorProps {
+  title: string;
+  points: InspectorPoint[];
+  // Point moved by the arrow keys, if any
+  activeIndex: number | null;
+  onActiveChange: (index: number) => void;
+  onPointChange: (index: number, point: Point) => void;
+  line?: InspectorLine;
+  onLengthChange?: (length: number) => void;
+  onAngleChange?: (angle: number) => void;
+  // Called around typing in a field so each edit is a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  digits: number;
+  onChange: (value: number) => void;
+  onEditStart: () => void;
+  onEditEnd: () => void;
+  onFocus?: () => void;
+}
+
+// A number input that applies every valid value as it is typed, while
+// keeping the text being typed (such as "12.") until it loses focus
+function NumberField({
+  label,
+  value,
+  digits,
+  onChange,
+  onEditStart,
+  onEditEnd,
+  onFocus,
+}: NumberFieldProps) {
+  const [text, setText] = useState<string | null>(null);
+  const formatted = String(parseFloat(value.toFixed(digits)));
+
+  return (
+    <input
+      type="number"
+      aria-label={label}
+      value={text ?? formatted}
+      step="any"
+      onFocus={() => {
+        setText(formatted);
+        onEditStart();
+        onFocus?.();
+      }}
+      onBlur={() => {
+        setText(null);
+        onEditEnd();
+      }}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed)) onChange(parsed);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+        // Keep shortcuts such as Delete or the arrow keys from reaching the
+        // viewer
+        e.stopPropagation();
+      }}
+    />
+  );
+}
+
+function Inspector({
+  title,
+  points,
+  activeIndex,
+  onActiveChange,
+  onPointChange,
+  line,
+  onLengthChange,
+  onAngleChange,
+  onEditStart,
+  onEditEnd,
+}: InspectorProps) {
+  const editHandlers = { onEditStart, onEditEnd };
+
+  return (
+    <div className="inspector">
+      <div className="inspector-title">{title}</div>
+      <div className="inspector-points">
+        {points.map(({ label, point }, index) => (
+          <div
+            key={index}
+            className={`inspector-row ${index === activeIndex ? "active" : ""}`}
+            onClick={() => onActiveChange(index)}
+          >
+            <span className="inspector-label">{label}</span>
+            <NumberField
+              label={`${label} X`}
+              value={point.x}
+              digits={2}
+              onChange={(x) => onPointChange(index, { ...point, x })}
+              onFocus={() => onActiveChange(index)}
+              {...editHandlers}
+            />
+            <NumberField
+              label={`${label} Y`}
+              value={point.y}
+              digits={2}
+              onChange={(y) => onPointChange(index, { ...point, y })}
+              onFocus={() => onActiveChange(index)}
+              {...editHandlers}
+            />
+          </div>
+        ))}
+      </div>
+      {line && onLengthChange && onAngleChange && (
+        <div className="inspector-line">
+          <label>
+            Length ({line.unit})
+            <NumberField
+              label="Length"
+              value={line.length}
+              digits={line.unit === "px" ? 1 : 3}
+              onChange={(length) => {
+                if (length > 0) onLengthChange(length);
+              }}
+              {...editHandlers}
+            />
+          </label>
+          <label>
+            Angle (°)
+            <NumberField
+              label="Angle"
+              value={line.angle}
+              digits={2}
+              onChange={onAngleChange}
+              {...editHandlers}
+            />
+          </label>
+        </div>
+      )}
+      <div className="inspector-hint">
+        Arrows move the highlighted point, or the whole shape when none is, by 1
+        px • Shift: 10 px • Alt: 0.1 px • Tab: next point
+      </div>
+    </div>
+  );
+}
+
+export default Inspector;
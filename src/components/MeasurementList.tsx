@@ -0,0 +1,208 @@
+import { useEffect, useRef } from "react";
+import type { MeasurementKind } from "../utils/measurements";
+import type { MeasurementCategory } from "../utils/categories";
+import "./MeasurementList.css";
+
+export interface MeasurementListItem {
+  kind: MeasurementKind;
+  index: number;
+  id: string;
+  // Display name, falling back to a generated one for unnamed measurements
+  name: string;
+  value: string;
+  // Reason to treat the value with caution, if any
+  warning?: string;
+  notes: string;
+  category?: MeasurementCategory;
+  // Rows can only be reordered among measurements of the same kind
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+}
+
+interface MeasurementListProps {
+  items: MeasurementListItem[];
+  categories: MeasurementCategory[];
+  selectedId: string | null;
+  onSelect: (item: MeasurementListItem) => void;
+  onHover: (item: MeasurementListItem | null) => void;
+  onRename: (item: MeasurementListItem, name: string) => void;
+  onNotesChange: (item: MeasurementListItem, notes: string) => void;
+  onCategoryChange: (
+    item: MeasurementListItem,
+    categoryId: string | undefined,
+  ) => void;
+  onMove: (item: MeasurementListItem, offset: -1 | 1) => void;
+  onDelete: (item: MeasurementListItem) => void;
+}
+
+function MeasurementList({
+  items,
+  categories,
+  selectedId,
+  onSelect,
+  onHover,
+  onRename,
+  onNotesChange,
+  onCategoryChange,
+  onMove,
+  onDelete,
+}: MeasurementListProps) {
+  const selectedRowRef = useRef<HTMLLIElement>(null);
+
+  // Keep the row of a measurement selected on the canvas in view
+  useEffect(() => {
+    selectedRowRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selectedId]);
+
+  // Text fields are committed on blur so each edit is a single undo step
+  const handleTextKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>,
+    originalValue: string,
+  ) => {
+    if (event.key === "Escape") {
+      event.currentTarget.value = originalValue;
+      event.currentTarget.blur();
+    }
+    if (event.key === "Enter" && event.currentTarget.tagName === "INPUT") {
+      event.currentTarget.blur();
+    }
+    // Keep shortcuts such as Delete or C from reaching the viewer
+    event.stopPropagation();
+  };
+
+  return (
+    <div className="measurement-list">
+      <div className="measurement-list-header">
+        <h3>Measurements</h3>
+        <span className="measurement-count">{items.length}</span>
+      </div>
+      {items.length === 0 ? (
+        <div className="measurement-list-empty">No measurements yet</div>
+      ) : (
+        <ul>
+          {items.map((item) => {
+            const isSelected = item.id === selectedId;
+            // Measurements in a locked category can't be renamed or deleted
+            const isLocked = item.category?.locked === true;
+            return (
+              <li
+                key={item.id}
+                ref={isSelected ? selectedRowRef : undefined}
+                className={`measurement-item ${isSelected ? "selected" : ""} ${item.category?.visible === false ? "hidden" : ""}`}
+                onClick={() => onSelect(item)}
+                onMouseEnter={() => onHover(item)}
+                onMouseLeave={() => onHover(null)}
+              >
+                {item.category && (
+                  <span
+                    className="measurement-category-swatch"
+                    style={{ backgroundColor: item.category.color }}
+                    title={item.category.name}
+                  />
+                )}
+                <div className="measurement-item-row">
+                  <input
+                    key={item.name}
+                    className="measurement-name"
+                    defaultValue={item.name}
+                    aria-label="Measurement name"
+                    readOnly={isLocked}
+                    onBlur={(e) => {
+                      if (e.target.value !== item.name) {
+                        onRename(item, e.target.value);
+                      }
+                    }}
+                    onKeyDown={(e) => handleTextKeyDown(e, item.name)}
+                  />
+                  <span className="measurement-value">
+                    {item.warning && (
+                      <span
+                        className="measurement-warning"
+                        title={item.warning}
+                      >
+                        ⚠{" "}
+                      </span>
+                    )}
+                    {item.value}
+                  </span>
+                </div>
+                <div className="measurement-item-actions">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMove(item, -1);
+                    }}
+                    disabled={!item.canMoveUp}
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMove(item, 1);
+                    }}
+                    disabled={!item.canMoveDown}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(item);
+                    }}
+                    className="measurement-delete"
+                    disabled={isLocked}
+                    title={
+                      isLocked
+                        ? "Unlock the category to delete this measurement"
+                        : "Delete measurement"
+                    }
+                  >
+                    ×
+                  </button>
+                </div>
+                {isSelected && categories.length > 0 && (
+                  <select
+                    className="measurement-category"
+                    value={item.category?.id ?? ""}
+                    aria-label="Category"
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) =>
+                      onCategoryChange(item, e.target.value || undefined)
+                    }
+                  >
+                    <option value="">No category</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {isSelected && (
+                  <textarea
+                    key={item.notes}
+                    className="measurement-notes"
+                    defaultValue={item.notes}
+                    placeholder="Notes"
+                    rows={3}
+                    onBlur={(e) => {
+                      if (e.target.value !== item.notes) {
+                        onNotesChange(item, e.target.value);
+                      }
+                    }}
+                    onKeyDown={(e) => handleTextKeyDown(e, item.notes)}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default MeasurementList;
@@ -1,10 +1,18 @@
-import { useRef } from "react";
+import { useRef, useState } from "react";
+import type { StorageEstimate } from "../utils/storage";
+import type { ExportFormat } from "../utils/measurementExport";
+import { createPresetId, type ReferencePreset } from "../utils/presets";
+import { DEFAULT_UNIT, REAL_UNITS, isUnit, type Unit } from "../utils/units";
+import {
+  findCalibrationSource,
+  getCalibrationStatus,
+  type CalibrationStatus,
+} from "../utils/calibrationGroups";
+import type { MeasuredImage } from "../utils/measurements";
 import "./Sidebar.css";
 
-interface ImageFile {
-  id: string;
+interface ImageFile extends MeasuredImage {
   dataUrl: string;
-  name: string;
 }
 
 interface SidebarProps {
@@ -14,8 +22,42 @@ interface SidebarProps {
   onImageSelect: (id: string) => void;
   onClearAll: () => void;
   onDeleteImage: (imageId: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  storageEstimate: StorageEstimate | null;
+  storageError: string | null;
+  onExportProject: () => void;
+  onImportProject: (file: File, mode: "merge" | "replace") => void;
+  onExportMeasurements: (
+    scope: "current" | "all",
+    format: ExportFormat,
+  ) => void;
+  customPresets: ReferencePreset[];
+  onCustomPresetsChange: (presets: ReferencePreset[]) => void;
+  onShareCalibration: (sourceId: string, targetIds: string[]) => void;
 }
 
+// Helper function to format a byte count for display
+const formatBytes = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(unitIndex === 0 ? 0 : 1)} ${units[unitIndex]}`;
+};
+
+const CALIBRATION_BADGES: Record<CalibrationStatus, string> = {
+  calibrated: "Calibrated",
+  metadata: "From file",
+  shared: "Linked",
+  uncalibrated: "No scale",
+};
+
 function Sidebar({
   images,
   selectedImageId,
@@ -23,8 +65,38 @@ function Sidebar({
   onImageSelect,
   onClearAll,
   onDeleteImage,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  storageEstimate,
+  storageError,
+  onExportProject,
+  onImportProject,
+  onExportMeasurements,
+  customPresets,
+  onCustomPresetsChange,
+  onShareCalibration,
 }: SidebarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Project file waiting for the user to choose merge or replace
+  const [pendingProject, setPendingProject] = useState<File | null>(null);
+  const [showMeasurementExport, setShowMeasurementExport] = useState(false);
+  const [exportScope, setExportScope] = useState<"current" | "all">("current");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [showPresetManager, setShowPresetManager] = useState(false);
+  const [newPresetName, setNewPresetName] = useState("");
+  const [newPresetLength, setNewPresetLength] = useState("");
+  const [newPresetUnit, setNewPresetUnit] = useState<Unit>(DEFAULT_UNIT);
+  // Images checked to share the calibration, while choosing them
+  const [shareTargetIds, setShareTargetIds] = useState<string[] | null>(null);
+
+  // A linked image shares the calibration of its group's source
+  const selectedImage = images.find((image) => image.id === selectedImageId);
+  const shareSource =
+    selectedImage &&
+    (findCalibrationSource(selectedImage, images) ?? selectedImage);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -37,6 +109,99 @@ function Sidebar({
     fileInputRef.current?.click();
   };
 
+  const handleProjectFileChange = (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    event.target.value = "";
+    if (!file) return;
+
+    if (images.length === 0) {
+      // Nothing to merge with
+      onImportProject(file, "replace");
+    } else {
+      setPendingProject(file);
+    }
+  };
+
+  const handleImportChoice = (mode: "merge" | "replace") => {
+    if (pendingProject) {
+      onImportProject(pendingProject, mode);
+    }
+    setPendingProject(null);
+  };
+
+  const handleMeasurementExportSubmit = () => {
+    // Fall back to all images when none is selected
+    onExportMeasurements(selectedImageId ? exportScope : "all", exportFormat);
+    setShowMeasurementExport(false);
+  };
+
+  const handleAddPreset = () => {
+    const name = newPresetName.trim();
+    const length = parseFloat(newPresetLength);
+    if (!name || !(length > 0)) return;
+    onCustomPresetsChange([
+      ...customPresets,
+      { id: createPresetId(), name, length, unit: newPresetUnit },
+    ]);
+    setNewPresetName("");
+    setNewPresetLength("");
+  };
+
+  const handleDeletePreset = (preset: ReferencePreset) => {
+    if (
+      confirm(`Are you sure you want to delete the preset "${preset.name}"?`)
+    ) {
+      onCustomPresetsChange(customPresets.filter((p) => p.id !== preset.id));
+    }
+  };
+
+  const handleShareCalibrationClick = () => {
+    if (!shareSource) return;
+    setShareTargetIds(
+      images
+        .filter((image) => image.calibrationSourceId === shareSource.id)
+        .map((image) => image.id),
+    );
+  };
+
+  const handleShareTargetToggle = (imageId: string, checked: boolean) => {
+    setShareTargetIds((prev) =>
+      prev && checked
+        ? [...prev, imageId]
+        : (prev?.filter((id) => id !== imageId) ?? null),
+    );
+  };
+
+  const handleShareCalibrationSubmit = () => {
+    if (shareSource && shareTargetIds) {
+      onShareCalibration(shareSource.id, shareTargetIds);
+    }
+    setShareTargetIds(null);
+  };
+
+  // Badge tooltip explaining where an image's calibration comes from
+  const getCalibrationTitle = (image: ImageFile, status: CalibrationStatus) => {
+    if (status === "shared") {
+      const source = findCalibrationSource(image, images);
+      return `Uses the calibration of "${source?.name}"`;
+    }
+    if (status === "uncalibrated") {
+      return "Not calibrated yet: measurements use a default scale";
+    }
+    if (status === "metadata") {
+      return "Scale read from the resolution saved in the image file";
+    }
+    const linked = images.filter(
+      (other) => other.calibrationSourceId === image.id,
+    ).length;
+    return linked > 0
+      ? `Calibration shared with ${linked} other image${linked === 1 ? "" : "s"}`
+      : "Calibrated";
+  };
+
   const handleDeleteClick = (
     event: React.MouseEvent,
     imageId: string,
@@ -60,6 +225,64 @@ function Sidebar({
             Clear All
           </button>
         )}
+        <div className="history-buttons">
+          <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+        </div>
+        <div className="project-buttons">
+          <button
+            onClick={onExportProject}
+            disabled={images.length === 0}
+            title="Save all images and measurements to a single file"
+          >
+            Export Project
+          </button>
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            title="Load images and measurements from a project file"
+          >
+            Import Project
+          </button>
+        </div>
+        <div className="project-buttons">
+          <button
+            onClick={() => setShowMeasurementExport(true)}
+            disabled={images.length === 0}
+            title="Download measurements as a CSV or JSON table"
+          >
+            Export Measurements
+          </button>
+          <button
+            onClick={() => setShowPresetManager(true)}
+            title="Manage your own reference objects for calibration"
+          >
+            Presets
+          </button>
+        </div>
+        <div className="project-buttons">
+          <button
+            onClick={handleShareCalibrationClick}
+            disabled={!shareSource || images.length < 2}
+            title="Measure other images with the selected image's calibration"
+          >
+            Share Calibration
+          </button>
+        </div>
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleProjectFileChange}
+          style={{ display: "none" }}
+        />
         <input
           ref={fileInputRef}
           type="file"
@@ -76,23 +299,269 @@ function Sidebar({
             <p>Click "Upload Images" to get started</p>
           </div>
         ) : (
-          images.map((image) => (
-            <div
-              key={image.id}
-              className={`thumbnail ${selectedImageId === image.id ? "selected" : ""}`}
-              onClick={() => onImageSelect(image.id)}
-            >
+          images.map((image) => {
+            const status = getCalibrationStatus(image, images);
+            return (
+              <div
+                key={image.id}
+                className={`thumbnail ${selectedImageId === image.id ? "selected" : ""}`}
+                onClick={() => onImageSelect(image.id)}
+              >
+                <button
+                  className="delete-image-button"
+                  onClick={(e) => handleDeleteClick(e, image.id, image.name)}
+                  title="Delete image"
+                >
+                  ×
+                </button>
+                <span
+                  className={`calibration-badge ${status}`}
+                  title={getCalibrationTitle(image, status)}
+                >
+                  {CALIBRATION_BADGES[status]}
+                </span>
+                <img src={image.dataUrl} alt={image.name} />
+                <div className="thumbnail-name">{image.name}</div>
+              </div>
+            );
+          })
+        )}
+      </div>
+      {pendingProject && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <h3>Import Project</h3>
+            <p>
+              Add the images from "{pendingProject.name}" to the current ones,
+              or replace the current images entirely?
+            </p>
+            <div className="modal-buttons">
+              <button
+                onClick={() => handleImportChoice("merge")}
+                className="submit-button"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleImportChoice("replace")}
+                className="submit-button"
+              >
+                Replace
+              </button>
+              <button
+                onClick={() => setPendingProject(null)}
+                className="cancel-button"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {showMeasurementExport && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <h3>Export Measurements</h3>
+            <div className="export-options">
+              <label>
+                Images:
+                <select
+                  value={selectedImageId ? exportScope : "all"}
+                  onChange={(e) =>
+                    setExportScope(e.target.value as "current" | "all")
+                  }
+                >
+                  <option value="current" disabled={!selectedImageId}>
+                    Current image
+                  </option>
+                  <option value="all">All images</option>
+                </select>
+              </label>
+              <label>
+                Format:
+                <select
+                  value={exportFormat}
+                  onChange={(e) =>
+                    setExportFormat(e.target.value as ExportFormat)
+                  }
+                >
+                  <option value="csv">CSV (spreadsheet)</option>
+                  <option value="json">JSON</option>
+                </select>
+              </label>
+            </div>
+            <div className="modal-buttons">
+              <button
+                onClick={handleMeasurementExportSubmit}
+                className="submit-button"
+              >
+                Export
+              </button>
+              <button
+                onClick={() => setShowMeasurementExport(false)}
+                className="cancel-button"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {showPresetManager && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <h3>Reference Presets</h3>
+            <p>
+              Objects of a known length to pick when setting the scale. They are
+              saved in this browser and included in project exports.
+            </p>
+            {customPresets.length === 0 ? (
+              <div className="preset-empty">No presets of your own yet</div>
+            ) : (
+              <ul className="preset-list">
+                {customPresets.map((preset) => (
+                  <li key={preset.id}>
+                    <span>{preset.name}</span>
+                    <span className="preset-length">
+                      {preset.length} {preset.unit}
+                    </span>
+                    <button
+                      onClick={() => handleDeletePreset(preset)}
+                      title="Delete preset"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="preset-form">
+              <input
+                value={newPresetName}
+                onChange={(e) => setNewPresetName(e.target.value)}
+                placeholder="Name"
+                aria-label="Preset name"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddPreset();
+                }}
+              />
+              <input
+                type="number"
+                value={newPresetLength}
+                onChange={(e) => setNewPresetLength(e.target.value)}
+                placeholder="Length"
+                aria-label="Preset length"
+                min="0"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddPreset();
+                }}
+              />
+              <select
+                value={newPresetUnit}
+                onChange={(e) => {
+                  if (isUnit(e.target.value)) {
+                    setNewPresetUnit(e.target.value);
+                  }
+                }}
+                aria-label="Preset unit"
+              >
+                {REAL_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="modal-buttons">
+              <button
+                onClick={handleAddPreset}
+                className="submit-button"
+                disabled={
+                  !newPresetName.trim() || !(parseFloat(newPresetLength) > 0)
+                }
+              >
+                Add Preset
+              </button>
+              <button
+                onClick={() => setShowPresetManager(false)}
+                className="cancel-button"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {shareSource && shareTargetIds && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <h3>Share Calibration</h3>
+            <p>
+              Measure the checked images with the calibration of "
+              {shareSource.name}". They follow any later change to it, until one
+              is calibrated on its own.
+            </p>
+            <ul className="share-list">
+              {images
+                .filter((image) => image.id !== shareSource.id)
+                .map((image) => {
+                  const status = getCalibrationStatus(image, images);
+                  return (
+                    <li key={image.id}>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={shareTargetIds.includes(image.id)}
+                          onChange={(e) =>
+                            handleShareTargetToggle(image.id, e.target.checked)
+                          }
+                        />
+                        <span>{image.name}</span>
+                      </label>
+                      <span
+                        className={`calibration-badge ${status}`}
+                        title={getCalibrationTitle(image, status)}
+                      >
+                        {CALIBRATION_BADGES[status]}
+                      </span>
+                    </li>
+                  );
+                })}
+            </ul>
+            <div className="modal-buttons">
+              <button
+                onClick={handleShareCalibrationSubmit}
+                className="submit-button"
+              >
+                Apply
+              </button>
               <button
-                className="delete-image-button"
-                onClick={(e) => handleDeleteClick(e, image.id, image.name)}
-                title="Delete image"
+                onClick={() => setShareTargetIds(null)}
+                className="cancel-button"
               >
-                ×
+                Cancel
               </button>
-              <img src={image.dataUrl} alt={image.name} />
-              <div className="thumbnail-name">{image.name}</div>
             </div>
-          ))
+          </div>
+        </div>
+      )}
+      <div className="storage-info">
+        {storageError && <div className="storage-error">{storageError}</div>}
+        {storageEstimate && (
+          <>
+            <div className="storage-bar">
+              <div
+                className="storage-bar-fill"
+                style={{
+                  width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%`,
+                }}
+              />
+            </div>
+            <div className="storage-text">
+              {formatBytes(storageEstimate.usage)} of{" "}
+              {formatBytes(storageEstimate.quota)} used
+            </div>
+          </>
         )}
       </div>
     </div>
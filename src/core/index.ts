@@ -0,0 +1,107 @@
+// Public API of the measurement core: reading project files and measuring
+// their images without the UI. Everything exported here runs in the browser
+// and in Node; the px2cm command-line tool is built on it.
+
+export {
+  angleBetweenLines,
+  applyHomography,
+  calculateAngle,
+  calculateDistance,
+  calculatePathLength,
+  calculatePolygonArea,
+  circleThroughPoints,
+  computeHomography,
+  distanceToLineSegment,
+  distanceToPath,
+  snapToAngle,
+  type Angle,
+  type Circle,
+  type Homography,
+  type Line,
+  type Point,
+  type Polygon,
+  type Polyline,
+} from "../utils/geometry";
+export {
+  DEFAULT_SCALE,
+  DEFAULT_UNIT,
+  REAL_UNITS,
+  UNITS,
+  formatAngle,
+  formatArea,
+  formatLength,
+  fromCentimeters,
+  isUnit,
+  toCentimeters,
+  type Unit,
+} from "../utils/units";
+export {
+  calculateScale,
+  getCalibrationPixels,
+  withScale,
+  type CalibrationAxis,
+} from "../utils/calibration";
+export {
+  createMeasurementSpace,
+  createPerspectiveCalibration,
+  measureAngle,
+  measureCircle,
+  measureDistance,
+  measurePathLength,
+  measurePolygonArea,
+  pointAtDistance,
+  type CalibratedImage,
+  type CircleMeasurement,
+  type MeasurementSpace,
+  type PerspectiveCalibration,
+} from "../utils/measure";
+export {
+  angleWithUncertainty,
+  circleWithUncertainty,
+  createUncertaintyModel,
+  distanceWithUncertainty,
+  isExtrapolated,
+  pathLengthWithUncertainty,
+  polygonAreaWithUncertainty,
+  type UncertainImage,
+  type UncertainValue,
+  type UncertaintyModel,
+} from "../utils/uncertainty";
+export {
+  getCalibrationStatus,
+  resolveCalibration,
+  type CalibrationStatus,
+  type LinkableImage,
+} from "../utils/calibrationGroups";
+export {
+  MEASUREMENT_KINDS,
+  MEASUREMENT_LABELS,
+  getMeasurementName,
+  withMeasurementIds,
+  type MeasuredImage,
+  type Measurement,
+  type MeasurementInfo,
+  type MeasurementKind,
+} from "../utils/measurements";
+export {
+  findCategory,
+  isMeasurementCategory,
+  type LineStyle,
+  type MeasurementCategory,
+} from "../utils/categories";
+export {
+  getMeasurementRows,
+  measurementsToCsv,
+  measurementsToJson,
+  type ExportFormat,
+  type MeasurementRow,
+} from "../utils/measurementExport";
+export {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  ProjectFileError,
+  getMeasuredImages,
+  parseProjectFile,
+  type ProjectFile,
+  type ProjectImage,
+} from "../utils/project";
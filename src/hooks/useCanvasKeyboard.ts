@@ -0,0 +1,123 @@
+import { useEffect, useState, type RefObject } from "react";
+import type { Point } from "../utils/geometry";
+
+export interface CanvasKeyHandlers {
+  // Actions by KeyboardEvent.key
+  shortcuts: Partial<Record<string, () => void>>;
+  // Move the selection by an offset in image pixels, returning whether
+  // there was anything to move
+  onNudge: (offset: Point) => boolean;
+  // The arrow keys were released, or the window lost the focus
+  onNudgeEnd: () => void;
+  // Select the next (or previous) shape handle, returning false past the
+  // last one so the focus moves on
+  onCycleHandles: (backwards: boolean) => boolean;
+}
+
+// Image pixels an arrow key moves a point by: Shift for coarse steps, Alt for
+// fine ones
+const NUDGE_STEP = 1;
+const COARSE_NUDGE_STEP = 10;
+const FINE_NUDGE_STEP = 0.1;
+
+const ARROW_DIRECTIONS: Record<string, Point> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// Elements that act on Space themselves, so it mustn't start panning there
+const SPACE_HANDLING_ELEMENTS =
+  'input, textarea, select, button, [contenteditable]:not([contenteditable="false"]), [role="button"]';
+
+// Keyboard input of the image area. Shift (for 45° steps) and Space (to pan)
+// are followed wherever the focus is, Space only while the pointer or the
+// focus is on the image. The shortcuts, the arrow keys and Tab only act
+// while the image area itself has the keyboard focus, so they never get in
+// the way of the rest of the page.
+export const useCanvasKeyboard = (
+  containerRef: RefObject<HTMLElement | null>,
+  { shortcuts, onNudge, onNudgeEnd, onCycleHandles }: CanvasKeyHandlers,
+) => {
+  const [isShiftPressed, setIsShiftPressed] = useState(false);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Shift") {
+        setIsShiftPressed(true);
+      }
+      if (e.key === " ") {
+        // Leave Space to focused buttons, form controls and editable text
+        if (
+          e.target instanceof Element &&
+          e.target.closest(SPACE_HANDLING_ELEMENTS)
+        ) {
+          return;
+        }
+        // Only pan while the pointer is over the image or focus is inside it
+        const container = containerRef.current;
+        if (
+          !container ||
+          !(
+            container.matches(":hover") ||
+            container.contains(document.activeElement)
+          )
+        ) {
+          return;
+        }
+        // Hold space to pan instead of scrolling the page
+        e.preventDefault();
+        setIsSpacePressed(true);
+      }
+      if (e.target !== containerRef.current) return;
+
+      shortcuts[e.key]?.();
+
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (direction && !e.ctrlKey && !e.metaKey) {
+        const step = e.shiftKey
+          ? COARSE_NUDGE_STEP
+          : e.altKey
+            ? FINE_NUDGE_STEP
+            : NUDGE_STEP;
+        if (onNudge({ x: direction.x * step, y: direction.y * step })) {
+          e.preventDefault();
+        }
+      }
+
+      if (
+        e.key === "Tab" &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.altKey &&
+        onCycleHandles(e.shiftKey)
+      ) {
+        e.preventDefault();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === "Shift") {
+        setIsShiftPressed(false);
+      }
+      if (e.key === " ") {
+        setIsSpacePressed(false);
+      }
+      if (ARROW_DIRECTIONS[e.key]) onNudgeEnd();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    // A key released in another window never sends its keyup here
+    window.addEventListener("blur", onNudgeEnd);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", onNudgeEnd);
+    };
+  });
+
+  return { isShiftPressed, isSpacePressed };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  closeBatch,
+  openBatch,
+  recordChange,
+  stepBack,
+  stepForward,
+  type History,
+} from "./useHistory";
+
+const start: History<string> = { past: [], present: "a", future: [] };
+
+describe("history batches", () => {
+  it("collapses the updates of a batch into one undo step", () => {
+    let history = openBatch(start, 100);
+    history = recordChange(history, "b", 100, true);
+    history = recordChange(history, "c", 100, true);
+    history = closeBatch(history);
+    expect(history.past).toEqual(["a"]);
+    expect(stepBack(history).present).toBe("a");
+  });
+
+  it("adds no undo step for a batch that changed nothing", () => {
+    const history = closeBatch(openBatch(start, 100));
+    expect(history.past).toEqual([]);
+  });
+
+  it("keeps redo after undo and a batch that only selected a shape", () => {
+    let history = recordChange(start, "b", 100, false);
+    history = stepBack(history);
+    history = closeBatch(openBatch(history, 100));
+    expect(stepForward(history).present).toBe("b");
+  });
+
+  it("drops redo once a batch changes something", () => {
+    let history = stepBack(recordChange(start, "b", 100, false));
+    history = openBatch(history, 100);
+    history = closeBatch(recordChange(history, "c", 100, true));
+    expect(history.future).toEqual([]);
+    expect(stepBack(history).present).toBe("a");
+  });
+});
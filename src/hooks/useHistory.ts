@@ -0,0 +1,142 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+// Move to a new state. Inside a batch the checkpoint was already taken when
+// it began, so only the present state changes.
+export const recordChange = <T>(
+  history: History<T>,
+  next: T,
+  limit: number,
+  isBatched: boolean,
+): History<T> => {
+  if (next === history.present) return history;
+  if (isBatched) {
+    return { ...history, present: next, future: [] };
+  }
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: next,
+    future: [],
+  };
+};
+
+// Take the checkpoint a batch can be undone to. Redo steps are only dropped
+// once the batch changes something, so merely selecting a shape keeps them.
+export const openBatch = <T>(
+  history: History<T>,
+  limit: number,
+): History<T> => ({
+  ...history,
+  past: [...history.past, history.present].slice(-limit),
+});
+
+// Drop the checkpoint if nothing changed during the batch
+export const closeBatch = <T>(history: History<T>): History<T> =>
+  history.past[history.past.length - 1] === history.present
+    ? { ...history, past: history.past.slice(0, -1) }
+    : history;
+
+export const stepBack = <T>(history: History<T>): History<T> =>
+  history.past.length === 0
+    ? history
+    : {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+      };
+
+export const stepForward = <T>(history: History<T>): History<T> =>
+  history.future.length === 0
+    ? history
+    : {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+      };
+
+// Keeps an undo/redo history of a piece of state for the current session.
+// Every call to `set` records an undo step, except while a batch is open:
+// a batch (e.g. dragging a handle) collapses all its updates into one step.
+export function useHistory<T>(initialState: T, limit = 100) {
+  const [history, setHistory] = useState<History<T>>({
+    past: [],
+    present: initialState,
+    future: [],
+  });
+  const inBatchRef = useRef(false);
+
+  const set = useCallback(
+    (updater: Updater<T>) => {
+      // Whether the update belongs to a batch is decided when it's made: React
+      // may only run the updater below once the batch has ended
+      const isBatched = inBatchRef.current;
+      setHistory((prev) => {
+        const next =
+          typeof updater === "function"
+            ? (updater as (prev: T) => T)(prev.present)
+            : updater;
+        return recordChange(prev, next, limit, isBatched);
+      });
+    },
+    [limit],
+  );
+
+  // Replace the state without recording history (e.g. when loading saved data)
+  const reset = useCallback((state: T) => {
+    setHistory({ past: [], present: state, future: [] });
+  }, []);
+
+  const beginBatch = useCallback(() => {
+    if (inBatchRef.current) return;
+    inBatchRef.current = true;
+    setHistory((prev) => openBatch(prev, limit));
+  }, [limit]);
+
+  const endBatch = useCallback(() => {
+    if (!inBatchRef.current) return;
+    inBatchRef.current = false;
+    setHistory(closeBatch);
+  }, []);
+
+  // Step back one entry, returning the restored state (undefined if none)
+  const undo = useCallback((): T | undefined => {
+    if (history.past.length === 0) return undefined;
+    const previous = stepBack(history);
+    setHistory(previous);
+    return previous.present;
+  }, [history]);
+
+  // Step forward one entry, returning the restored state (undefined if none)
+  const redo = useCallback((): T | undefined => {
+    if (history.future.length === 0) return undefined;
+    const next = stepForward(history);
+    setHistory(next);
+    return next.present;
+  }, [history]);
+
+  // Every state undo or redo can still return to, the present one included
+  const reachableStates = useMemo(
+    () => [...history.past, history.present, ...history.future],
+    [history],
+  );
+
+  return {
+    state: history.present,
+    reachableStates,
+    set,
+    reset,
+    undo,
+    redo,
+    beginBatch,
+    endBatch,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import type { Point } from "../utils/geometry";
+import { ZOOM_WINDOW_SIZE } from "../utils/viewerCanvas";
+
+// A single finger on the canvas
+export interface TouchPress {
+  pointerId: number;
+  // Where the finger landed, in client coordinates
+  origin: Point;
+  // Whether the point is placed when the finger lifts rather than lands
+  deferred: boolean;
+  moved: boolean;
+}
+
+// How far a finger may wander before a press counts as a move, how long a
+// still press takes to bring up the loupe, and how much larger shapes are to
+// hit with a finger than with a mouse or pen
+export const TOUCH_SLOP = 8;
+const LONG_PRESS_MS = 500;
+export const TOUCH_HIT_FACTOR = 2.5;
+
+// Gap between the touch loupe and the finger
+const LOUPE_OFFSET = 40;
+
+// Fingers and the pen over the canvas: which fingers are down, the press of
+// a single finger with the long press that brings up the loupe, and whether
+// a pen is near so a palm resting on the screen can be ignored
+export const useTouchInput = (
+  containerRef: RefObject<HTMLDivElement | null>,
+) => {
+  // Fingers on the canvas by pointer id, in client coordinates
+  const touchesRef = useRef(new Map<number, Point>());
+  const touchPressRef = useRef<TouchPress | null>(null);
+  const longPressRef = useRef<number | null>(null);
+  // Set while a pen is near the screen, so a resting palm is ignored
+  const isPenNearRef = useRef(false);
+  const [isTouchInput, setIsTouchInput] = useState(false);
+  // Top left corner of the loupe shown next to the finger, in container
+  // coordinates; null while it is hidden
+  const [touchLoupe, setTouchLoupe] = useState<Point | null>(null);
+
+  // Don't leave a pending long press behind
+  useEffect(() => {
+    return () => {
+      if (longPressRef.current !== null) {
+        window.clearTimeout(longPressRef.current);
+      }
+    };
+  }, []);
+
+  const clearLongPress = () => {
+    if (longPressRef.current !== null) {
+      window.clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+
+  // Show the loupe above the finger, or below it near the top of the view
+  const showTouchLoupe = (clientX: number, clientY: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const y = clientY - rect.top;
+    const above = y - ZOOM_WINDOW_SIZE - LOUPE_OFFSET;
+    setTouchLoupe({
+      x: Math.max(
+        0,
+        Math.min(x - ZOOM_WINDOW_SIZE / 2, rect.width - ZOOM_WINDOW_SIZE),
+      ),
+      y: above >= 0 ? above : y + LOUPE_OFFSET,
+    });
+  };
+
+  // Bring up the loupe once the finger has been held still for a while
+  const startLongPress = (clientX: number, clientY: number) => {
+    longPressRef.current = window.setTimeout(() => {
+      longPressRef.current = null;
+      showTouchLoupe(clientX, clientY);
+    }, LONG_PRESS_MS);
+  };
+
+  return {
+    touchesRef,
+    touchPressRef,
+    isPenNearRef,
+    isTouchInput,
+    setIsTouchInput,
+    touchLoupe,
+    showTouchLoupe,
+    hideTouchLoupe: () => setTouchLoupe(null),
+    startLongPress,
+    clearLongPress,
+    isLongPressPending: () => longPressRef.current !== null,
+  };
+};
@@ -0,0 +1,194 @@
+import { useEffect, useState, type RefObject } from "react";
+import { calculateDistance, type Point } from "../utils/geometry";
+
+// Zoom and pan of the image, with the zoom relative to fitting the image in
+// the window and the pan in screen pixels from the container center, where
+// the image is anchored
+export interface ViewState {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+interface PanState {
+  startX: number;
+  startY: number;
+  panX: number;
+  panY: number;
+}
+
+// Two-finger gesture, with the fingers' distance and midpoint (relative to
+// the container center) and the view when it started
+interface PinchState {
+  distance: number;
+  center: Point;
+  view: ViewState;
+}
+
+export const FIT_VIEW: ViewState = { zoom: 1, panX: 0, panY: 0 };
+
+// Zoom limits of the main viewport, relative to fitting the image in the window
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 64;
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Zooming and panning the image in its container with the mouse wheel, a
+// dragging pointer or two fingers, along with the sizes the zoom level and
+// the rulers are shown against. The view goes back to fitting the image
+// whenever another image is shown.
+export const useViewport = (
+  containerRef: RefObject<HTMLDivElement | null>,
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  imageId: string | undefined,
+  imageLoaded: boolean,
+) => {
+  const [view, setView] = useState<ViewState>(FIT_VIEW);
+  const [panState, setPanState] = useState<PanState | null>(null);
+  const [pinchState, setPinchState] = useState<PinchState | null>(null);
+  // Displayed size of the fitted image relative to its natural size
+  const [fitRatio, setFitRatio] = useState(1);
+  // Size of the canvas container, so the rulers follow it when it changes
+  const [containerSize, setContainerSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+
+  useEffect(() => {
+    setView(FIT_VIEW);
+    setPanState(null);
+    setPinchState(null);
+  }, [imageId]);
+
+  // Mouse-wheel zoom around the cursor (non-passive so the page doesn't scroll)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+
+      // Cursor position relative to the container center, where the image is anchored
+      const rect = container.getBoundingClientRect();
+      const cursorX = e.clientX - (rect.left + rect.width / 2);
+      const cursorY = e.clientY - (rect.top + rect.height / 2);
+      const factor = Math.exp(-e.deltaY * 0.002);
+
+      setView((prev) => {
+        const zoom = clampZoom(prev.zoom * factor);
+        const ratio = zoom / prev.zoom;
+        // Keep the image point under the cursor fixed while zooming
+        return {
+          zoom,
+          panX: cursorX - ratio * (cursorX - prev.panX),
+          panY: cursorY - ratio * (cursorY - prev.panY),
+        };
+      });
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [containerRef, imageId]);
+
+  // Track the fitted display size so the zoom level can be shown relative to 1:1
+  useEffect(() => {
+    const updateFitRatio = () => {
+      const canvas = canvasRef.current;
+      if (canvas && canvas.width > 0) {
+        setFitRatio(canvas.offsetWidth / canvas.width);
+      }
+    };
+
+    updateFitRatio();
+    window.addEventListener("resize", updateFitRatio);
+    return () => window.removeEventListener("resize", updateFitRatio);
+  }, [canvasRef, imageLoaded]);
+
+  // Track the container size, which the rulers span
+  useEffect(() => {
+    const updateContainerSize = () => {
+      const container = containerRef.current;
+      if (container) {
+        setContainerSize({
+          width: container.clientWidth,
+          height: container.clientHeight,
+        });
+      }
+    };
+
+    updateContainerSize();
+    window.addEventListener("resize", updateContainerSize);
+    return () => window.removeEventListener("resize", updateContainerSize);
+  }, [containerRef, imageId]);
+
+  // Position of a pointer relative to the container center
+  const getContainerOffset = (clientX: number, clientY: number): Point => {
+    const container = containerRef.current;
+    if (!container) return { x: 0, y: 0 };
+    const rect = container.getBoundingClientRect();
+    return {
+      x: clientX - (rect.left + rect.width / 2),
+      y: clientY - (rect.top + rect.height / 2),
+    };
+  };
+
+  const startPan = (clientX: number, clientY: number) => {
+    setPanState({
+      startX: clientX,
+      startY: clientY,
+      panX: view.panX,
+      panY: view.panY,
+    });
+  };
+
+  const movePan = (clientX: number, clientY: number) => {
+    if (!panState) return;
+    setView((prev) => ({
+      ...prev,
+      panX: panState.panX + clientX - panState.startX,
+      panY: panState.panY + clientY - panState.startY,
+    }));
+  };
+
+  // Start a pinch with two fingers, in client coordinates
+  const startPinch = (a: Point, b: Point) => {
+    setPinchState({
+      distance: calculateDistance(a, b),
+      center: getContainerOffset((a.x + b.x) / 2, (a.y + b.y) / 2),
+      view,
+    });
+  };
+
+  // Pinch to zoom around the fingers and move them together to pan
+  const movePinch = (a: Point, b: Point) => {
+    if (!pinchState) return;
+    const distance = calculateDistance(a, b);
+    if (pinchState.distance === 0 || distance === 0) return;
+    const center = getContainerOffset((a.x + b.x) / 2, (a.y + b.y) / 2);
+    const start = pinchState.view;
+    const zoom = clampZoom((start.zoom * distance) / pinchState.distance);
+    const ratio = zoom / start.zoom;
+    // The image point that started between the fingers stays between them
+    setView({
+      zoom,
+      panX: center.x - ratio * (pinchState.center.x - start.panX),
+      panY: center.y - ratio * (pinchState.center.y - start.panY),
+    });
+  };
+
+  return {
+    view,
+    setView,
+    fitRatio,
+    containerSize,
+    isPanning: panState !== null,
+    startPan,
+    movePan,
+    endPan: () => setPanState(null),
+    isPinching: pinchState !== null,
+    startPinch,
+    movePinch,
+    endPinch: () => setPinchState(null),
+  };
+};
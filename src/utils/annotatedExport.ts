@@ -0,0 +1,632 @@
+// Exports an image with its calibration line and measurements burned in:
+// as a PNG at the image's native resolution, or as an SVG that embeds the
+// image and keeps every annotation as an editable vector element.
+
+import { calculateDistance, closePolygon, type Point } from "./geometry";
+import { blobToDataUrl } from "./storage";
+import {
+  angleWithUncertainty,
+  circleWithUncertainty,
+  createUncertaintyModel,
+  distanceWithUncertainty,
+  getCircleExtent,
+  isExtrapolated,
+  pathLengthWithUncertainty,
+  polygonAreaWithUncertainty,
+} from "./uncertainty";
+import { formatAngle, formatArea, formatLength } from "./units";
+import {
+  getMeasurementName,
+  type MeasuredImage,
+  type MeasurementInfo,
+  type MeasurementKind,
+} from "./measurements";
+import { getScaleBar, getUnitScale } from "./overlays";
+import {
+  findCategory,
+  getLineDash,
+  getMeasurementStyle,
+  isCategoryVisible,
+  withAlpha,
+  type MeasurementCategory,
+} from "./categories";
+
+// The parts of an image that the exporter reads
+export interface AnnotatedImage extends MeasuredImage {
+  dataUrl: string;
+}
+
+export interface AnnotatedExportOptions {
+  includeScaleBar: boolean;
+  // Bottom left corner of the scale bar where the user moved it in the
+  // viewer, in image pixels; null for the default corner
+  scaleBarPosition: Point | null;
+  // Categories the measurements are drawn with; hidden ones are left out
+  categories: MeasurementCategory[];
+}
+
+type OverlayElement =
+  | {
+      kind: "polyline";
+      points: Point[];
+      stroke: string;
+      width: number;
+      closed?: boolean;
+      fill?: string;
+    }
+  | {
+      kind: "arc";
+      center: Point;
+      radius: number;
+      startAngle: number;
+      // Signed angle swept from startAngle, a full turn for whole circles
+      sweep: number;
+      stroke: string;
+      width: number;
+    }
+  | { kind: "dot"; center: Point; radius: number; fill: string }
+  | {
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill: string;
+      stroke: string;
+      strokeWidth: number;
+    }
+  | { kind: "label"; text: string; x: number; y: number; color: string };
+
+// Annotations are grouped per shape so they can be picked apart in an editor
+interface OverlayGroup {
+  id: string;
+  title?: string;
+  // Name of the measurement's category, if it has one
+  category?: string;
+  // Dash pattern of every stroke in the group, following the line style
+  dash?: number[];
+  elements: OverlayElement[];
+}
+
+const CALIBRATION_COLOR = "#4444ff";
+const LABEL_COLOR = "#ffffff";
+const TOTAL_LABEL_COLOR = "#ffcc00";
+const LABEL_BACKGROUND = "rgba(0, 0, 0, 0.7)";
+const FONT_FAMILY = "system-ui, Arial, sans-serif";
+
+// Annotation size multiplier, so labels stay legible on large images
+const getAnnotationSize = (width: number, height: number): number =>
+  Math.max(1, Math.max(width, height) / 1000);
+
+const getLabelFont = (size: number) => `bold ${12 * size}px ${FONT_FAMILY}`;
+
+const buildOverlay = (
+  image: AnnotatedImage,
+  width: number,
+  height: number,
+  options: AnnotatedExportOptions,
+): OverlayGroup[] => {
+  const model = createUncertaintyModel(image);
+  const { unit } = model.space;
+  const size = getAnnotationSize(width, height);
+  const lineWidth = 2 * size;
+
+  const groups: OverlayGroup[] = [];
+  let elements: OverlayElement[] = [];
+  const startGroup = (group: Omit<OverlayGroup, "elements">) => {
+    elements = [];
+    groups.push({ ...group, elements });
+  };
+
+  // Color of the measurement being added, following its category
+  let color = getMeasurementStyle(undefined).color;
+
+  // Each measurement's group carries its id, name and category. Returns
+  // false for measurements of hidden categories, which are left out.
+  const startMeasurementGroup = (
+    kind: MeasurementKind,
+    index: number,
+    measurement: MeasurementInfo,
+  ): boolean => {
+    const category = findCategory(options.categories, measurement.category);
+    if (!isCategoryVisible(category)) return false;
+    const style = getMeasurementStyle(category);
+    color = style.color;
+    startGroup({
+      id: measurement.id,
+      title: getMeasurementName(kind, index, measurement),
+      category: category?.name,
+      dash: getLineDash(style.lineStyle, lineWidth),
+    });
+    return true;
+  };
+
+  const addEndpointMarker = (point: Point, angle: number, color: string) => {
+    const half = 5 * size;
+    const perpAngle = angle + Math.PI / 2;
+    elements.push({
+      kind: "polyline",
+      points: [
+        {
+          x: point.x - half * Math.cos(perpAngle),
+          y: point.y - half * Math.sin(perpAngle),
+        },
+        {
+          x: point.x + half * Math.cos(perpAngle),
+          y: point.y + half * Math.sin(perpAngle),
+        },
+      ],
+      stroke: color,
+      width: lineWidth,
+    });
+  };
+
+  const addLabel = (text: string, x: number, y: number, color = LABEL_COLOR) =>
+    elements.push({ kind: "label", text, x, y, color });
+
+  // Flag labels of shapes that span much more than the calibration reference
+  const warningPrefix = (points: Point[]) =>
+    isExtrapolated(model, points) ? "⚠ " : "";
+
+  // Label offset to the side of a segment, as in the viewer
+  const addSegmentLabel = (start: Point, end: Point) => {
+    const angle = Math.atan2(end.y - start.y, end.x - start.x) + Math.PI / 2;
+    const distance = distanceWithUncertainty(model, start, end);
+    addLabel(
+      warningPrefix([start, end]) +
+        formatLength(distance.value, unit, distance.uncertainty),
+      (start.x + end.x) / 2 + 30 * size * Math.cos(angle),
+      (start.y + end.y) / 2 + 30 * size * Math.sin(angle),
+    );
+  };
+
+  const addMarkedPath = (points: Point[], color: string) => {
+    elements.push({
+      kind: "polyline",
+      points,
+      stroke: color,
+      width: lineWidth,
+    });
+    const [first, second] = points;
+    const last = points[points.length - 1];
+    const beforeLast = points[points.length - 2];
+    addEndpointMarker(
+      first,
+      Math.atan2(second.y - first.y, second.x - first.x),
+      color,
+    );
+    addEndpointMarker(
+      last,
+      Math.atan2(last.y - beforeLast.y, last.x - beforeLast.x),
+      color,
+    );
+  };
+
+  const addDots = (points: Point[]) => {
+    points.forEach((center) =>
+      elements.push({
+        kind: "dot",
+        center,
+        radius: 3 * size,
+        fill: color,
+      }),
+    );
+  };
+
+  if (image.calibrationLine) {
+    startGroup({ id: "calibration" });
+    const { start, end } = image.calibrationLine;
+    addMarkedPath([start, end], CALIBRATION_COLOR);
+  }
+
+  if (image.calibrationLineY) {
+    startGroup({ id: "calibration-y" });
+    const { start, end } = image.calibrationLineY;
+    addMarkedPath([start, end], CALIBRATION_COLOR);
+  }
+
+  image.measurementLines?.forEach((line, index) => {
+    if (!startMeasurementGroup("line", index, line)) return;
+    addMarkedPath([line.start, line.end], color);
+    addSegmentLabel(line.start, line.end);
+  });
+
+  image.measurementPaths?.forEach((path, index) => {
+    const { points } = path;
+    if (points.length < 2) return;
+    if (!startMeasurementGroup("path", index, path)) return;
+    addMarkedPath(points, color);
+    addDots(points.slice(1, -1));
+    for (let i = 1; i < points.length; i++) {
+      addSegmentLabel(points[i - 1], points[i]);
+    }
+    if (points.length > 2) {
+      const last = points[points.length - 1];
+      const total = pathLengthWithUncertainty(model, points);
+      addLabel(
+        `${warningPrefix(points)}Total: ${formatLength(total.value, unit, total.uncertainty)}`,
+        last.x,
+        last.y - 20 * size,
+        TOTAL_LABEL_COLOR,
+      );
+    }
+  });
+
+  image.measurementPolygons?.forEach((polygon, index) => {
+    const { points } = polygon;
+    if (points.length < 3) return;
+    if (!startMeasurementGroup("polygon", index, polygon)) return;
+    elements.push({
+      kind: "polyline",
+      points,
+      stroke: color,
+      width: lineWidth,
+      closed: true,
+      fill: withAlpha(color, 0.2),
+    });
+    addDots(points);
+    const centerX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const centerY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const area = polygonAreaWithUncertainty(model, points);
+    const perimeter = pathLengthWithUncertainty(model, closePolygon(points));
+    addLabel(
+      `${warningPrefix(points)}Area: ${formatArea(area.value, unit, area.uncertainty)}`,
+      centerX,
+      centerY - 10 * size,
+    );
+    addLabel(
+      `Perimeter: ${formatLength(perimeter.value, unit, perimeter.uncertainty)}`,
+      centerX,
+      centerY + 10 * size,
+    );
+  });
+
+  image.measurementAngles?.forEach((angle, index) => {
+    const { vertex, start, end } = angle;
+    if (!startMeasurementGroup("angle", index, angle)) return;
+    elements.push({
+      kind: "polyline",
+      points: [start, vertex, end],
+      stroke: color,
+      width: lineWidth,
+    });
+
+    // Arc along the smaller side between the arms
+    const startAngle = Math.atan2(start.y - vertex.y, start.x - vertex.x);
+    const endAngle = Math.atan2(end.y - vertex.y, end.x - vertex.x);
+    let sweep = endAngle - startAngle;
+    if (sweep > Math.PI) sweep -= Math.PI * 2;
+    if (sweep < -Math.PI) sweep += Math.PI * 2;
+    const radius = Math.min(
+      30 * size,
+      Math.min(
+        calculateDistance(vertex, start),
+        calculateDistance(vertex, end),
+      ) * 0.5,
+    );
+    elements.push({
+      kind: "arc",
+      center: vertex,
+      radius,
+      startAngle,
+      sweep,
+      stroke: color,
+      width: lineWidth,
+    });
+
+    const bisector = startAngle + sweep / 2;
+    const labelDistance = radius + 20 * size;
+    const measured = angleWithUncertainty(model, vertex, start, end);
+    addLabel(
+      formatAngle(measured.value, measured.uncertainty),
+      vertex.x + labelDistance * Math.cos(bisector),
+      vertex.y + labelDistance * Math.sin(bisector),
+    );
+  });
+
+  image.measurementCircles?.forEach((circle, index) => {
+    const { center, radius } = circle;
+    if (!startMeasurementGroup("circle", index, circle)) return;
+    const measured = circleWithUncertainty(model, center, radius);
+    elements.push({
+      kind: "arc",
+      center,
+      radius,
+      startAngle: 0,
+      sweep: Math.PI * 2,
+      stroke: color,
+      width: lineWidth,
+    });
+    const cross = 5 * size;
+    elements.push(
+      {
+        kind: "polyline",
+        points: [
+          { x: center.x - cross, y: center.y },
+          { x: center.x + cross, y: center.y },
+        ],
+        stroke: color,
+        width: lineWidth,
+      },
+      {
+        kind: "polyline",
+        points: [
+          { x: center.x, y: center.y - cross },
+          { x: center.x, y: center.y + cross },
+        ],
+        stroke: color,
+        width: lineWidth,
+      },
+    );
+    [
+      `${warningPrefix(getCircleExtent(center, radius))}r: ${formatLength(measured.radius.value, unit, measured.radius.uncertainty)}`,
+      `d: ${formatLength(measured.diameter.value, unit, measured.diameter.uncertainty)}`,
+      `C: ${formatLength(measured.circumference.value, unit, measured.circumference.uncertainty)}`,
+      `A: ${formatArea(measured.area.value, unit, measured.area.uncertainty)}`,
+    ].forEach((text, line) => {
+      addLabel(text, center.x, center.y + (line + 1) * 20 * size);
+    });
+  });
+
+  // The scale bar matches the one in the viewer, in length and place. It
+  // makes no sense for pixel measurements, nor under perspective where the
+  // scale changes across the image
+  const unitScale = getUnitScale(image);
+  if (options.includeScaleBar && unitScale && unit !== "px") {
+    startGroup({ id: "scale-bar" });
+    const {
+      origin,
+      width: barWidth,
+      value,
+    } = getScaleBar(unitScale, width, height, options.scaleBarPosition);
+    const barHeight = 6 * size;
+    const barY = origin.y - barHeight;
+    elements.push({
+      kind: "rect",
+      x: origin.x,
+      y: barY,
+      width: barWidth,
+      height: barHeight,
+      fill: "#ffffff",
+      stroke: "#000000",
+      strokeWidth: size,
+    });
+    addLabel(`${value} ${unit}`, origin.x + barWidth / 2, barY - 14 * size);
+  }
+
+  return groups;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The image could not be loaded."));
+    img.src = src;
+  });
+
+const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  groups: OverlayGroup[],
+  size: number,
+) => {
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  groups.forEach(({ dash, elements }) => {
+    ctx.setLineDash(dash ?? []);
+    elements.forEach((element) => {
+      switch (element.kind) {
+        case "polyline": {
+          ctx.beginPath();
+          ctx.moveTo(element.points[0].x, element.points[0].y);
+          element.points
+            .slice(1)
+            .forEach((point) => ctx.lineTo(point.x, point.y));
+          if (element.closed) ctx.closePath();
+          if (element.fill) {
+            ctx.fillStyle = element.fill;
+            ctx.fill();
+          }
+          ctx.strokeStyle = element.stroke;
+          ctx.lineWidth = element.width;
+          ctx.stroke();
+          break;
+        }
+        case "arc": {
+          ctx.beginPath();
+          ctx.arc(
+            element.center.x,
+            element.center.y,
+            element.radius,
+            element.startAngle,
+            element.startAngle + element.sweep,
+            element.sweep < 0,
+          );
+          ctx.strokeStyle = element.stroke;
+          ctx.lineWidth = element.width;
+          ctx.stroke();
+          break;
+        }
+        case "dot": {
+          ctx.beginPath();
+          ctx.arc(
+            element.center.x,
+            element.center.y,
+            element.radius,
+            0,
+            Math.PI * 2,
+          );
+          ctx.fillStyle = element.fill;
+          ctx.fill();
+          break;
+        }
+        case "rect": {
+          ctx.fillStyle = element.fill;
+          ctx.fillRect(element.x, element.y, element.width, element.height);
+          ctx.strokeStyle = element.stroke;
+          ctx.lineWidth = element.strokeWidth;
+          ctx.strokeRect(element.x, element.y, element.width, element.height);
+          break;
+        }
+        case "label": {
+          ctx.font = getLabelFont(size);
+          ctx.textAlign = "center";
+          ctx.textBaseline = "middle";
+          const bgWidth = ctx.measureText(element.text).width + 8 * size;
+          const bgHeight = 18 * size;
+          ctx.fillStyle = LABEL_BACKGROUND;
+          ctx.fillRect(
+            element.x - bgWidth / 2,
+            element.y - bgHeight / 2,
+            bgWidth,
+            bgHeight,
+          );
+          ctx.fillStyle = element.color;
+          ctx.fillText(element.text, element.x, element.y);
+          break;
+        }
+      }
+    });
+  });
+};
+
+// Render the image at native resolution with the annotations composited in
+export const renderAnnotatedPng = async (
+  image: AnnotatedImage,
+  options: AnnotatedExportOptions,
+): Promise<Blob> => {
+  const img = await loadImage(image.dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas rendering is not available.");
+
+  ctx.drawImage(img, 0, 0);
+  drawOverlay(
+    ctx,
+    buildOverlay(image, canvas.width, canvas.height, options),
+    getAnnotationSize(canvas.width, canvas.height),
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) =>
+      blob
+        ? resolve(blob)
+        : reject(new Error("The image could not be encoded as PNG.")),
+    );
+  });
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatCoordinate = (value: number): string =>
+  String(Math.round(value * 100) / 100);
+
+const elementToSvg = (
+  element: OverlayElement,
+  size: number,
+  measureText: (text: string) => number,
+): string => {
+  const n = formatCoordinate;
+  switch (element.kind) {
+    case "polyline": {
+      const points = element.points.map((p) => `${n(p.x)},${n(p.y)}`).join(" ");
+      const tag = element.closed ? "polygon" : "polyline";
+      return `<${tag} points="${points}" fill="${element.fill ?? "none"}" stroke="${element.stroke}" stroke-width="${n(element.width)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    }
+    case "arc": {
+      const { center, radius, startAngle, sweep } = element;
+      const stroke = `fill="none" stroke="${element.stroke}" stroke-width="${n(element.width)}"`;
+      if (Math.abs(sweep) >= Math.PI * 2) {
+        return `<circle cx="${n(center.x)}" cy="${n(center.y)}" r="${n(radius)}" ${stroke}/>`;
+      }
+      const endAngle = startAngle + sweep;
+      const start = {
+        x: center.x + radius * Math.cos(startAngle),
+        y: center.y + radius * Math.sin(startAngle),
+      };
+      const end = {
+        x: center.x + radius * Math.cos(endAngle),
+        y: center.y + radius * Math.sin(endAngle),
+      };
+      const largeArc = Math.abs(sweep) > Math.PI ? 1 : 0;
+      const sweepFlag = sweep > 0 ? 1 : 0;
+      return `<path d="M ${n(start.x)} ${n(start.y)} A ${n(radius)} ${n(radius)} 0 ${largeArc} ${sweepFlag} ${n(end.x)} ${n(end.y)}" ${stroke} stroke-linecap="round"/>`;
+    }
+    case "dot":
+      return `<circle cx="${n(element.center.x)}" cy="${n(element.center.y)}" r="${n(element.radius)}" fill="${element.fill}"/>`;
+    case "rect":
+      return `<rect x="${n(element.x)}" y="${n(element.y)}" width="${n(element.width)}" height="${n(element.height)}" fill="${element.fill}" stroke="${element.stroke}" stroke-width="${n(element.strokeWidth)}"/>`;
+    case "label": {
+      const bgWidth = measureText(element.text) + 8 * size;
+      const bgHeight = 18 * size;
+      return [
+        "<g>",
+        `<rect x="${n(element.x - bgWidth / 2)}" y="${n(element.y - bgHeight / 2)}" width="${n(bgWidth)}" height="${n(bgHeight)}" fill="${LABEL_BACKGROUND}"/>`,
+        `<text x="${n(element.x)}" y="${n(element.y)}" fill="${element.color}" font-family="${FONT_FAMILY}" font-weight="bold" font-size="${n(12 * size)}" text-anchor="middle" dominant-baseline="central">${escapeXml(element.text)}</text>`,
+        "</g>",
+      ].join("");
+    }
+  }
+};
+
+// Build an SVG with the image embedded and the annotations as vector shapes
+export const renderAnnotatedSvg = async (
+  image: AnnotatedImage,
+  options: AnnotatedExportOptions,
+): Promise<string> => {
+  const img = await loadImage(image.dataUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const size = getAnnotationSize(width, height);
+
+  // Embed the image itself so the SVG is self-contained
+  const response = await fetch(image.dataUrl);
+  const href = await blobToDataUrl(await response.blob());
+
+  // Label backgrounds are sized with the same font metrics the PNG uses
+  const measureCtx = document.createElement("canvas").getContext("2d");
+  const measureText = (text: string) => {
+    if (!measureCtx) return text.length * 7 * size;
+    measureCtx.font = getLabelFont(size);
+    return measureCtx.measureText(text).width;
+  };
+
+  const groups = buildOverlay(image, width, height, options).map(
+    ({ id, title, category, dash, elements }) => {
+      // The dash pattern is inherited by every stroke in the group
+      const attributes = [
+        `id="${escapeXml(id)}"`,
+        ...(category !== undefined
+          ? [`data-category="${escapeXml(category)}"`]
+          : []),
+        ...(dash?.length
+          ? [`stroke-dasharray="${dash.map(formatCoordinate).join(" ")}"`]
+          : []),
+      ];
+      return [
+        `  <g ${attributes.join(" ")}>`,
+        ...(title ? [`    <title>${escapeXml(title)}</title>`] : []),
+        ...elements.map(
+          (element) => `    ${elementToSvg(element, size, measureText)}`,
+        ),
+        "  </g>",
+      ].join("\n");
+    },
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>${escapeXml(image.name)}</title>`,
+    `  <image href="${href}" x="0" y="0" width="${width}" height="${height}"/>`,
+    ...groups,
+    "</svg>",
+    "",
+  ].join("\n");
+};
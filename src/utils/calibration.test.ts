@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { calculateScale, getCalibrationPixels, withScale } from "./calibration";
+
+const line = { start: { x: 0, y: 0 }, end: { x: 300, y: 400 } };
+
+describe("getCalibrationPixels", () => {
+  it("uses the full length for a uniform scale", () => {
+    expect(getCalibrationPixels(line, null)).toBe(500);
+  });
+
+  it("uses the extent along a calibrated axis", () => {
+    expect(getCalibrationPixels(line, "x")).toBe(300);
+    expect(getCalibrationPixels(line, "y")).toBe(400);
+  });
+});
+
+describe("calculateScale", () => {
+  it("gives pixels per cm whatever the unit of the known length", () => {
+    expect(calculateScale(line, 10, "cm")).toBe(50);
+    expect(calculateScale(line, 100, "mm")).toBeCloseTo(50);
+    expect(calculateScale(line, 1, "in")).toBeCloseTo(500 / 2.54);
+    expect(calculateScale(line, 3, "cm", "x")).toBe(100);
+  });
+
+  it("refuses lines or lengths it can't calibrate from", () => {
+    expect(
+      calculateScale({ start: line.start, end: line.start }, 10, "cm"),
+    ).toBeNull();
+    expect(calculateScale(line, 0, "cm")).toBeNull();
+    expect(
+      calculateScale({ start: line.start, end: { x: 0, y: 50 } }, 1, "cm", "x"),
+    ).toBeNull();
+  });
+});
+
+describe("withScale", () => {
+  it("replaces the calibration with the given scale", () => {
+    const image = withScale(
+      {
+        name: "photo.png",
+        unit: "mm" as const,
+        scale: 20,
+        scaleY: 25,
+        calibrationLine: line,
+        calibrationLength: 25,
+        calibrationSourceId: "other",
+      },
+      40,
+    );
+    expect(image).toMatchObject({ name: "photo.png", unit: "mm", scale: 40 });
+    expect(image.scaleY).toBeUndefined();
+    expect(image.calibrationLine).toBeUndefined();
+    expect(image.calibrationLength).toBeUndefined();
+    expect(image.calibrationSourceId).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+// Scale calibration from a line of known length. A line calibrates a single
+// uniform scale, or one axis of an image whose pixels aren't square, in
+// which case only its extent along that axis counts.
+
+import { calculateDistance, type Line } from "./geometry";
+import type { CalibratedImage } from "./measure";
+import { toCentimeters, type Unit } from "./units";
+
+export type CalibrationAxis = "x" | "y";
+
+// Pixel length of a calibration line: its extent along the calibrated axis,
+// or its full length for a uniform scale
+export const getCalibrationPixels = (
+  line: Line,
+  axis: CalibrationAxis | null,
+): number =>
+  axis === "x"
+    ? Math.abs(line.end.x - line.start.x)
+    : axis === "y"
+      ? Math.abs(line.end.y - line.start.y)
+      : calculateDistance(line.start, line.end);
+
+// Pixels per cm given by a line of the given real length, or null when the
+// line has no extent to calibrate from
+export const calculateScale = (
+  line: Line,
+  knownLength: number,
+  unit: Unit,
+  axis: CalibrationAxis | null = null,
+): number | null => {
+  const pixels = getCalibrationPixels(line, axis);
+  const centimeters = toCentimeters(knownLength, unit);
+  return pixels > 0 && centimeters > 0 ? pixels / centimeters : null;
+};
+
+// The image measured at a fixed scale in pixels per cm instead of its own or
+// a shared calibration. The calibration lines go too, as they no longer
+// describe how the scale was found.
+export const withScale = <T extends CalibratedImage>(
+  image: T,
+  scale: number,
+  scaleY?: number,
+): T => ({
+  ...image,
+  scale,
+  scaleY,
+  scaleSource: undefined,
+  calibrationLine: undefined,
+  calibrationLength: undefined,
+  calibrationTolerance: undefined,
+  calibrationLineY: undefined,
+  calibrationLengthY: undefined,
+  calibrationToleranceY: undefined,
+  perspective: undefined,
+  calibrationSourceId: undefined,
+});
@@ -0,0 +1,129 @@
+// Calibrations shared between images, for series shot from a fixed camera.
+// An image in a group points at the image whose calibration it uses and
+// keeps none of its own; the calibration is looked up whenever the image is
+// measured, so changes to the source reach every linked image. Links always
+// point straight at the source, never along a chain.
+
+import type { ScaleSource } from "./imageMetadata";
+import type { UncertainImage } from "./uncertainty";
+
+export interface LinkableImage extends UncertainImage {
+  id: string;
+  // Set while the scale is the one read from the file's metadata
+  scaleSource?: ScaleSource;
+  // Id of the image whose calibration this one uses
+  calibrationSourceId?: string;
+}
+
+export type CalibrationStatus =
+  "calibrated" | "metadata" | "shared" | "uncalibrated";
+
+// Image fields that make up a calibration. The unit and the placement
+// precision stay per image: they describe how it is read, not the camera.
+const CALIBRATION_KEYS = [
+  "scale",
+  "scaleY",
+  "scaleSource",
+  "calibrationLine",
+  "calibrationLength",
+  "calibrationTolerance",
+  "calibrationLineY",
+  "calibrationLengthY",
+  "calibrationToleranceY",
+  "perspective",
+] as const satisfies (keyof LinkableImage)[];
+
+type Calibration = Pick<LinkableImage, (typeof CALIBRATION_KEYS)[number]>;
+
+const pickCalibration = (image: LinkableImage): Calibration => {
+  const calibration: Record<string, unknown> = {};
+  CALIBRATION_KEYS.forEach((key) => {
+    calibration[key] = image[key];
+  });
+  return calibration as Calibration;
+};
+
+const EMPTY_CALIBRATION = Object.fromEntries(
+  CALIBRATION_KEYS.map((key) => [key, undefined]),
+) as Calibration;
+
+export const findCalibrationSource = <T extends LinkableImage>(
+  image: T,
+  images: T[],
+): T | undefined =>
+  image.calibrationSourceId === undefined
+    ? undefined
+    : images.find((other) => other.id === image.calibrationSourceId);
+
+// The image with the calibration it is measured with filled in. Images
+// without a link come back unchanged, so they keep their identity.
+export const resolveCalibration = <T extends LinkableImage>(
+  image: T,
+  images: T[],
+): T => {
+  const source = findCalibrationSource(image, images);
+  return source ? { ...image, ...pickCalibration(source) } : image;
+};
+
+// The image with the calibration it is measured with made its own, so it
+// stops following its source
+export const detachCalibration = <T extends LinkableImage>(
+  image: T,
+  images: T[],
+): T =>
+  image.calibrationSourceId === undefined
+    ? image
+    : { ...resolveCalibration(image, images), calibrationSourceId: undefined };
+
+export const getCalibrationStatus = (
+  image: LinkableImage,
+  images: LinkableImage[],
+): CalibrationStatus => {
+  const resolved = resolveCalibration(image, images);
+  if (!resolved.scale && !resolved.perspective) return "uncalibrated";
+  if (findCalibrationSource(image, images)) return "shared";
+  return !resolved.perspective && resolved.scaleSource === "metadata"
+    ? "metadata"
+    : "calibrated";
+};
+
+// Make the target images use the calibration of the source image. Images
+// that were following a target move over to the source with it.
+export const linkCalibration = <T extends LinkableImage>(
+  images: T[],
+  sourceId: string,
+  targetIds: string[],
+): T[] => {
+  const source = images.find((image) => image.id === sourceId);
+  if (!source) return images;
+  const rootId = source.calibrationSourceId ?? source.id;
+  const targets = new Set(targetIds.filter((id) => id !== rootId));
+
+  return images.map((image) => {
+    if (targets.has(image.id)) {
+      return { ...image, ...EMPTY_CALIBRATION, calibrationSourceId: rootId };
+    }
+    if (
+      image.calibrationSourceId !== undefined &&
+      targets.has(image.calibrationSourceId)
+    ) {
+      return { ...image, calibrationSourceId: rootId };
+    }
+    return image;
+  });
+};
+
+// Give images linked to any of the given sources a copy of the calibration
+// they were using, such as before those sources are deleted
+export const releaseLinkedImages = <T extends LinkableImage>(
+  images: T[],
+  sourceIds: string[],
+): T[] => {
+  const sources = new Set(sourceIds);
+  return images.map((image) =>
+    image.calibrationSourceId !== undefined &&
+    sources.has(image.calibrationSourceId)
+      ? detachCalibration(image, images)
+      : image,
+  );
+};
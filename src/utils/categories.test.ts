@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  findCategory,
+  getLineDash,
+  getMeasurementStyle,
+  isCategoryEditable,
+  isCategoryVisible,
+  isMeasurementCategory,
+  mergeCategories,
+  withAlpha,
+  type MeasurementCategory,
+} from "./categories";
+
+const width: MeasurementCategory = {
+  id: "width",
+  name: "Width",
+  color: "#44aaff",
+  lineStyle: "dashed",
+  visible: true,
+  locked: false,
+};
+
+describe("isMeasurementCategory", () => {
+  it("accepts a complete category", () => {
+    expect(isMeasurementCategory(width)).toBe(true);
+  });
+
+  it.each([
+    ["a color that isn't #rrggbb", { ...width, color: "blue" }],
+    ["an unknown line style", { ...width, lineStyle: "wavy" }],
+    [
+      "an inherited property as line style",
+      { ...width, lineStyle: "constructor" },
+    ],
+    ["a missing visibility", { ...width, visible: undefined }],
+  ])("rejects %s", (_, value) => {
+    expect(isMeasurementCategory(value)).toBe(false);
+  });
+});
+
+describe("mergeCategories", () => {
+  it("adds only categories that aren't known by id", () => {
+    const defects = { ...width, id: "defects", name: "Defects" };
+    expect(
+      mergeCategories([width], [{ ...width, name: "Renamed" }, defects]),
+    ).toEqual([width, defects]);
+  });
+});
+
+describe("visibility and locking", () => {
+  it("treats measurements without a known category as visible and editable", () => {
+    const category = findCategory([width], "deleted");
+    expect(category).toBeUndefined();
+    expect(isCategoryVisible(category)).toBe(true);
+    expect(isCategoryEditable(category)).toBe(true);
+  });
+
+  it("leaves hidden and locked categories out of editing", () => {
+    expect(isCategoryEditable(width)).toBe(true);
+    expect(isCategoryEditable({ ...width, locked: true })).toBe(false);
+    expect(isCategoryVisible({ ...width, locked: true })).toBe(true);
+    expect(isCategoryEditable({ ...width, visible: false })).toBe(false);
+  });
+});
+
+describe("styles", () => {
+  it("draws uncategorized measurements in the default red", () => {
+    expect(getMeasurementStyle(undefined)).toEqual({
+      color: "#ff4444",
+      highlightColor: "#ff8888",
+      lineStyle: "solid",
+    });
+  });
+
+  it("draws categorized measurements in the category's style", () => {
+    const style = getMeasurementStyle(width);
+    expect(style.color).toBe("#44aaff");
+    expect(style.highlightColor).toMatch(/^#[0-9a-f]{6}$/);
+    expect(style.highlightColor).not.toBe(style.color);
+    expect(style.lineStyle).toBe("dashed");
+  });
+
+  it("converts colors for translucent fills", () => {
+    expect(withAlpha("#ff4444", 0.2)).toBe("rgba(255, 68, 68, 0.2)");
+  });
+
+  it("scales dash patterns with the line width", () => {
+    expect(getLineDash("solid", 2)).toEqual([]);
+    expect(getLineDash("dashed", 2)).toEqual([8, 6]);
+    expect(getLineDash("dotted", 2)).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,167 @@
+// User-defined measurement categories, such as "width" or "defects". Each is
+// drawn in its own color and line style and can be hidden or locked like a
+// layer. Categories are kept in localStorage and travel with project files;
+// measurements refer to them by id, and one whose category was deleted is
+// simply uncategorized.
+
+export type LineStyle = "solid" | "dashed" | "dotted";
+
+export interface MeasurementCategory {
+  id: string;
+  name: string;
+  // "#rrggbb", as given by color inputs
+  color: string;
+  lineStyle: LineStyle;
+  // Hidden categories aren't drawn, and neither hidden nor locked ones can be
+  // picked or edited on the canvas
+  visible: boolean;
+  locked: boolean;
+}
+
+// How a measurement is drawn, whether or not it has a category
+export interface MeasurementStyle {
+  color: string;
+  // Color while hovered or selected
+  highlightColor: string;
+  lineStyle: LineStyle;
+}
+
+export const LINE_STYLES: Record<LineStyle, string> = {
+  solid: "Solid",
+  dashed: "Dashed",
+  dotted: "Dotted",
+};
+
+const DEFAULT_STYLE: MeasurementStyle = {
+  color: "#ff4444",
+  highlightColor: "#ff8888",
+  lineStyle: "solid",
+};
+
+// Colors offered to new categories in turn
+const CATEGORY_COLORS = [
+  "#ff4444",
+  "#44cc44",
+  "#ffaa00",
+  "#44aaff",
+  "#cc44ff",
+  "#00cccc",
+];
+
+const STORAGE_KEY_CATEGORIES = "px2cm-measurement-categories";
+
+export const createCategoryId = (): string =>
+  `category-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getNextCategoryColor = (
+  categories: MeasurementCategory[],
+): string => CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length];
+
+export const isLineStyle = (value: unknown): value is LineStyle =>
+  typeof value === "string" && Object.hasOwn(LINE_STYLES, value);
+
+export const isMeasurementCategory = (
+  value: unknown,
+): value is MeasurementCategory => {
+  if (typeof value !== "object" || value === null) return false;
+  const category = value as Record<string, unknown>;
+  return (
+    typeof category.id === "string" &&
+    typeof category.name === "string" &&
+    typeof category.color === "string" &&
+    /^#[0-9a-f]{6}$/i.test(category.color) &&
+    isLineStyle(category.lineStyle) &&
+    typeof category.visible === "boolean" &&
+    typeof category.locked === "boolean"
+  );
+};
+
+// Load the user's categories, dropping any that are malformed
+export const loadCategories = (): MeasurementCategory[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_CATEGORIES);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isMeasurementCategory) : [];
+  } catch (error) {
+    console.error("Discarding corrupted measurement categories:", error);
+    return [];
+  }
+};
+
+export const saveCategories = (categories: MeasurementCategory[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY_CATEGORIES, JSON.stringify(categories));
+  } catch (error) {
+    console.error("Failed to save measurement categories:", error);
+  }
+};
+
+// Add categories from elsewhere, such as a project file, skipping ones that
+// are already known by id
+export const mergeCategories = (
+  existing: MeasurementCategory[],
+  incoming: MeasurementCategory[],
+): MeasurementCategory[] => {
+  const known = new Set(existing.map((category) => category.id));
+  return [
+    ...existing,
+    ...incoming.filter((category) => !known.has(category.id)),
+  ];
+};
+
+export const findCategory = (
+  categories: MeasurementCategory[],
+  id: string | undefined,
+): MeasurementCategory | undefined =>
+  id === undefined
+    ? undefined
+    : categories.find((category) => category.id === id);
+
+// Whether a measurement in the category, or without one, is drawn, and
+// whether it can be picked on the canvas
+export const isCategoryVisible = (category: MeasurementCategory | undefined) =>
+  category?.visible ?? true;
+
+export const isCategoryEditable = (category: MeasurementCategory | undefined) =>
+  !category || (category.visible && !category.locked);
+
+// Mix a "#rrggbb" color with white by the given amount
+const lightenColor = (color: string, amount: number): string =>
+  `#${[1, 3, 5]
+    .map((offset) => {
+      const channel = parseInt(color.slice(offset, offset + 2), 16);
+      return Math.round(channel + (255 - channel) * amount)
+        .toString(16)
+        .padStart(2, "0");
+    })
+    .join("")}`;
+
+export const getMeasurementStyle = (
+  category: MeasurementCategory | undefined,
+): MeasurementStyle =>
+  category
+    ? {
+        color: category.color,
+        highlightColor: lightenColor(category.color, 0.4),
+        lineStyle: category.lineStyle,
+      }
+    : DEFAULT_STYLE;
+
+// A "#rrggbb" color as a CSS color with the given opacity
+export const withAlpha = (color: string, alpha: number): string =>
+  `rgba(${[1, 3, 5]
+    .map((offset) => parseInt(color.slice(offset, offset + 2), 16))
+    .join(", ")}, ${alpha})`;
+
+// Dash pattern of a line style, for canvas setLineDash or SVG
+// stroke-dasharray, in proportion to the line width
+export const getLineDash = (style: LineStyle, lineWidth: number): number[] => {
+  switch (style) {
+    case "solid":
+      return [];
+    case "dashed":
+      return [lineWidth * 4, lineWidth * 3];
+    case "dotted":
+      return [lineWidth, lineWidth * 2];
+  }
+};
@@ -0,0 +1,15 @@
+// Trigger a browser download of a blob under the given file name
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Today's date as YYYY-MM-DD, for default file names
+export const dateStamp = (): string => new Date().toISOString().slice(0, 10);
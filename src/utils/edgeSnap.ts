@@ -0,0 +1,233 @@
+// Snapping of placed points to image features. The pixels around the cursor
+// are read back from the image, and the point moves to the strongest nearby
+// corner (Shi–Tomasi response) or, failing that, edge (Sobel gradient). Both
+// are refined to sub-pixel accuracy: corners as the point the surrounding
+// edges pass through, edges with a parabola through the gradient magnitudes
+// across the edge.
+
+import type { Point } from "./geometry";
+
+export interface SnapTarget {
+  point: Point;
+  kind: "edge" | "corner";
+}
+
+// Grayscale pixels of a rectangle of the image, in image pixel coordinates
+interface GrayPatch {
+  data: Float32Array;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Weakest gradient still treated as an edge, for pixel values from 0 to 255
+// (a full black-to-white step has a Sobel magnitude of 1020)
+const MIN_EDGE_STRENGTH = 60;
+
+// Smallest ratio of the weaker to the stronger gradient direction for a
+// feature to count as a corner rather than an edge
+const MIN_CORNER_RATIO = 0.25;
+
+// Half size of the window of gradients used to refine a corner
+const CORNER_WINDOW = 3;
+
+// Extra pixels read around the search area for the Sobel and corner windows
+const PATCH_MARGIN = CORNER_WINDOW + 1;
+
+// Read the pixels around a point as luminance
+const readGrayPatch = (
+  ctx: CanvasRenderingContext2D,
+  center: Point,
+  radius: number,
+): GrayPatch | null => {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const reach = Math.ceil(radius) + PATCH_MARGIN;
+  const x = Math.max(0, Math.floor(center.x) - reach);
+  const y = Math.max(0, Math.floor(center.y) - reach);
+  const width = Math.min(canvasWidth, Math.floor(center.x) + reach + 1) - x;
+  const height = Math.min(canvasHeight, Math.floor(center.y) + reach + 1) - y;
+  if (width < 3 || height < 3) return null;
+
+  const { data: rgba } = ctx.getImageData(x, y, width, height);
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] =
+      0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { data, x, y, width, height };
+};
+
+// Offset of a parabola's peak through three equally spaced samples, in
+// samples from the middle one
+const parabolaPeak = (before: number, at: number, after: number) => {
+  const curvature = before - 2 * at + after;
+  if (curvature >= 0) return 0;
+  return Math.max(-0.5, Math.min(0.5, (before - after) / (2 * curvature)));
+};
+
+// Find the strongest corner or edge within a radius of a point, preferring
+// features nearer the point; null when there is nothing distinct to snap to
+export const findSnapTarget = (
+  ctx: CanvasRenderingContext2D,
+  point: Point,
+  radius: number,
+): SnapTarget | null => {
+  const patch = readGrayPatch(ctx, point, radius);
+  if (!patch) return null;
+  const { data, width, height } = patch;
+  const at = (grid: Float32Array, i: number, j: number) => grid[j * width + i];
+
+  // Sobel gradients of every pixel that has all its neighbours
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+  for (let j = 1; j < height - 1; j++) {
+    for (let i = 1; i < width - 1; i++) {
+      const sx =
+        at(data, i + 1, j - 1) +
+        2 * at(data, i + 1, j) +
+        at(data, i + 1, j + 1) -
+        at(data, i - 1, j - 1) -
+        2 * at(data, i - 1, j) -
+        at(data, i - 1, j + 1);
+      const sy =
+        at(data, i - 1, j + 1) +
+        2 * at(data, i, j + 1) +
+        at(data, i + 1, j + 1) -
+        at(data, i - 1, j - 1) -
+        2 * at(data, i, j - 1) -
+        at(data, i + 1, j - 1);
+      const index = j * width + i;
+      gx[index] = sx;
+      gy[index] = sy;
+      magnitude[index] = Math.hypot(sx, sy);
+    }
+  }
+
+  // Corner response: the smaller eigenvalue of the gradients' structure
+  // tensor over a 3×3 window, kept only where it rivals the larger one
+  const corner = new Float32Array(width * height);
+  for (let j = 2; j < height - 2; j++) {
+    for (let i = 2; i < width - 2; i++) {
+      let xx = 0;
+      let yy = 0;
+      let xy = 0;
+      for (let dj = -1; dj <= 1; dj++) {
+        for (let di = -1; di <= 1; di++) {
+          const sx = at(gx, i + di, j + dj);
+          const sy = at(gy, i + di, j + dj);
+          xx += sx * sx;
+          yy += sy * sy;
+          xy += sx * sy;
+        }
+      }
+      const mean = (xx + yy) / 2;
+      const spread = Math.hypot((xx - yy) / 2, xy);
+      const smaller = mean - spread;
+      const larger = mean + spread;
+      if (larger > 0 && smaller / larger >= MIN_CORNER_RATIO) {
+        // Back to the scale of a single gradient magnitude
+        corner[j * width + i] = Math.sqrt(smaller / 9);
+      }
+    }
+  }
+
+  // Pick the best pixel of a response map within the radius, weighting
+  // responses down towards the edge of the search area
+  const findBest = (response: Float32Array, margin: number) => {
+    let best: { i: number; j: number; score: number } | null = null;
+    for (let j = margin; j < height - margin; j++) {
+      for (let i = margin; i < width - margin; i++) {
+        const value = at(response, i, j);
+        if (value < MIN_EDGE_STRENGTH) continue;
+        const dx = patch.x + i + 0.5 - point.x;
+        const dy = patch.y + j + 0.5 - point.y;
+        const distanceSq = dx * dx + dy * dy;
+        if (distanceSq > radius * radius) continue;
+        const score = value * (1 - (0.5 * distanceSq) / (radius * radius));
+        if (!best || score > best.score) best = { i, j, score };
+      }
+    }
+    return best;
+  };
+
+  const bestCorner = findBest(corner, PATCH_MARGIN);
+  if (bestCorner) {
+    // Every gradient around a corner is perpendicular to the line from the
+    // corner to its pixel; solve for the point that best satisfies them all
+    let xx = 0;
+    let yy = 0;
+    let xy = 0;
+    let bx = 0;
+    let by = 0;
+    for (let dj = -CORNER_WINDOW; dj <= CORNER_WINDOW; dj++) {
+      for (let di = -CORNER_WINDOW; di <= CORNER_WINDOW; di++) {
+        const sx = at(gx, bestCorner.i + di, bestCorner.j + dj);
+        const sy = at(gy, bestCorner.i + di, bestCorner.j + dj);
+        const qx = bestCorner.i + di + 0.5;
+        const qy = bestCorner.j + dj + 0.5;
+        xx += sx * sx;
+        yy += sy * sy;
+        xy += sx * sy;
+        bx += sx * sx * qx + sx * sy * qy;
+        by += sx * sy * qx + sy * sy * qy;
+      }
+    }
+    const det = xx * yy - xy * xy;
+    const x = (yy * bx - xy * by) / det;
+    const y = (xx * by - xy * bx) / det;
+    // Keep the refinement within the window it was computed from
+    if (
+      Number.isFinite(x) &&
+      Number.isFinite(y) &&
+      Math.abs(x - bestCorner.i - 0.5) <= CORNER_WINDOW &&
+      Math.abs(y - bestCorner.j - 0.5) <= CORNER_WINDOW
+    ) {
+      return { kind: "corner", point: { x: patch.x + x, y: patch.y + y } };
+    }
+    return {
+      kind: "corner",
+      point: {
+        x: patch.x + bestCorner.i + 0.5,
+        y: patch.y + bestCorner.j + 0.5,
+      },
+    };
+  }
+
+  const bestEdge = findBest(magnitude, 2);
+  if (!bestEdge) return null;
+
+  // Refine across the edge, along the gradient, sampling the magnitude
+  // between pixels with bilinear interpolation
+  const { i, j } = bestEdge;
+  const strength = at(magnitude, i, j);
+  const nx = at(gx, i, j) / strength;
+  const ny = at(gy, i, j) / strength;
+  const sample = (u: number, v: number) => {
+    const i0 = Math.floor(u);
+    const j0 = Math.floor(v);
+    const fu = u - i0;
+    const fv = v - j0;
+    return (
+      at(magnitude, i0, j0) * (1 - fu) * (1 - fv) +
+      at(magnitude, i0 + 1, j0) * fu * (1 - fv) +
+      at(magnitude, i0, j0 + 1) * (1 - fu) * fv +
+      at(magnitude, i0 + 1, j0 + 1) * fu * fv
+    );
+  };
+  const offset = parabolaPeak(
+    sample(i - nx, j - ny),
+    strength,
+    sample(i + nx, j + ny),
+  );
+  const edgeX = patch.x + i + 0.5 + offset * nx;
+  const edgeY = patch.y + j + 0.5 + offset * ny;
+
+  // Only move across the edge: keep the cursor's position along it
+  const along = (point.x - edgeX) * -ny + (point.y - edgeY) * nx;
+  return {
+    kind: "edge",
+    point: { x: edgeX - along * ny, y: edgeY + along * nx },
+  };
+};
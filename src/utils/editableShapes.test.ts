@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { MeasurementCategory } from "./categories";
+import {
+  findEditableAt,
+  findHandleAt,
+  findMeasurementAt,
+  getEditablePoints,
+  getNextHandle,
+  type EditableSelection,
+} from "./editableShapes";
+import type { MeasuredImage } from "./measurements";
+
+const locked: MeasurementCategory = {
+  id: "locked",
+  name: "Locked",
+  color: "#44aaff",
+  lineStyle: "solid",
+  visible: true,
+  locked: true,
+};
+
+const image: MeasuredImage = {
+  id: "image",
+  name: "image.png",
+  calibrationLine: { start: { x: 0, y: 100 }, end: { x: 50, y: 100 } },
+  measurementLines: [
+    { id: "a", start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+    {
+      id: "b",
+      start: { x: 0, y: 50 },
+      end: { x: 100, y: 50 },
+      category: "locked",
+    },
+  ],
+  measurementCircles: [{ id: "c", center: { x: 200, y: 200 }, radius: 20 }],
+};
+
+describe("getEditablePoints", () => {
+  it("puts the second handle of a circle on its circumference", () => {
+    expect(getEditablePoints(image, { kind: "circle", index: 0 })).toEqual([
+      { x: 200, y: 200 },
+      { x: 220, y: 200 },
+    ]);
+  });
+
+  it("returns no handles for a shape that isn't there", () => {
+    expect(getEditablePoints(image, { kind: "path", index: 0 })).toEqual([]);
+  });
+});
+
+describe("findMeasurementAt", () => {
+  it("finds the measurement near a point", () => {
+    expect(findMeasurementAt(image, [], { x: 50, y: 2 }, 5)).toEqual({
+      kind: "line",
+      index: 0,
+    });
+    expect(findMeasurementAt(image, [], { x: 200, y: 221 }, 5)).toEqual({
+      kind: "circle",
+      index: 0,
+    });
+  });
+
+  it("passes over measurements of locked categories", () => {
+    expect(findMeasurementAt(image, [], { x: 50, y: 50 }, 5)).toEqual({
+      kind: "line",
+      index: 1,
+    });
+    expect(findMeasurementAt(image, [locked], { x: 50, y: 50 }, 5)).toBeNull();
+  });
+
+  it("finds calibration lines only as editable shapes", () => {
+    expect(findMeasurementAt(image, [], { x: 25, y: 100 }, 5)).toBeNull();
+    expect(findEditableAt(image, [], { x: 25, y: 100 }, 5)).toEqual({
+      kind: "calibration",
+      index: 0,
+    });
+  });
+});
+
+describe("findHandleAt", () => {
+  it("prefers the handles of the selected shape", () => {
+    const overlapping: MeasuredImage = {
+      ...image,
+      measurementLines: [
+        { id: "a", start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+        { id: "b", start: { x: 0, y: 0 }, end: { x: 0, y: 100 } },
+      ],
+    };
+    const point = { x: 1, y: 1 };
+    expect(findHandleAt(overlapping, [], null, point, 5)).toEqual({
+      target: { kind: "line", index: 0 },
+      handleIndex: 0,
+    });
+    expect(
+      findHandleAt(overlapping, [], { kind: "line", index: 1 }, point, 5),
+    ).toEqual({ target: { kind: "line", index: 1 }, handleIndex: 0 });
+  });
+});
+
+describe("getNextHandle", () => {
+  it("steps through every handle, skipping locked shapes", () => {
+    const stops: EditableSelection[] = [];
+    let selection = getNextHandle(image, [locked], null, false);
+    while (selection) {
+      stops.push(selection);
+      selection = getNextHandle(image, [locked], selection, false);
+    }
+    expect(stops).toEqual([
+      { kind: "line", index: 0, handle: 0 },
+      { kind: "line", index: 0, handle: 1 },
+      { kind: "circle", index: 0, handle: 0 },
+      { kind: "circle", index: 0, handle: 1 },
+      { kind: "calibration", index: 0, handle: 0 },
+      { kind: "calibration", index: 0, handle: 1 },
+    ]);
+  });
+
+  it("starts at the first handle of a shape selected as a whole", () => {
+    const circle = { kind: "circle" as const, index: 0 };
+    expect(getNextHandle(image, [], circle, false)).toEqual({
+      ...circle,
+      handle: 0,
+    });
+    expect(getNextHandle(image, [], circle, true)).toEqual({
+      kind: "line",
+      index: 1,
+      handle: 1,
+    });
+  });
+
+  it("ends before the first handle when going backwards", () => {
+    expect(getNextHandle(image, [], null, true)).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+// Shapes on the canvas that can be picked, dragged and nudged: the saved
+// measurements and the calibration lines, their handles, and finding them
+// under the pointer.
+
+import {
+  findCategory,
+  isCategoryEditable,
+  type MeasurementCategory,
+} from "./categories";
+import {
+  calculateDistance,
+  closePolygon,
+  distanceToLineSegment,
+  distanceToPath,
+  type Point,
+} from "./geometry";
+import {
+  MEASUREMENT_KINDS,
+  MEASUREMENT_LIST_KEYS,
+  type MeasuredImage,
+  type MeasurementInfo,
+  type MeasurementKind,
+} from "./measurements";
+
+// Identifies a stored measurement by its kind and position in that list
+export interface MeasurementRef {
+  kind: MeasurementKind;
+  index: number;
+}
+
+// Shapes that can be selected and dragged, including the calibration lines:
+// index 0 is the main (or X axis) line and index 1 the Y axis line
+export type EditableKind = MeasurementKind | "calibration";
+
+export interface EditableRef {
+  kind: EditableKind;
+  index: number;
+}
+
+// A selected shape and the handle the arrow keys move, if any; without a
+// handle they move the whole shape
+export interface EditableSelection extends EditableRef {
+  handle?: number;
+}
+
+// The draggable handle points of an editable shape
+export const getEditablePoints = (
+  image: MeasuredImage,
+  ref: EditableRef,
+): Point[] => {
+  switch (ref.kind) {
+    case "calibration": {
+      const line =
+        ref.index === 1 ? image.calibrationLineY : image.calibrationLine;
+      return line ? [line.start, line.end] : [];
+    }
+    case "line": {
+      const line = image.measurementLines?.[ref.index];
+      return line ? [line.start, line.end] : [];
+    }
+    case "path":
+      return image.measurementPaths?.[ref.index]?.points ?? [];
+    case "polygon":
+      return image.measurementPolygons?.[ref.index]?.points ?? [];
+    case "angle": {
+      const angle = image.measurementAngles?.[ref.index];
+      return angle ? [angle.vertex, angle.start, angle.end] : [];
+    }
+    case "circle": {
+      // The second handle sits on the circumference and controls the radius
+      const circle = image.measurementCircles?.[ref.index];
+      return circle
+        ? [
+            circle.center,
+            { x: circle.center.x + circle.radius, y: circle.center.y },
+          ]
+        : [];
+    }
+  }
+};
+
+// Names of a shape's handles in the inspector, in getEditablePoints order
+export const getHandleLabels = (
+  kind: EditableKind,
+  count: number,
+): string[] => {
+  switch (kind) {
+    case "calibration":
+    case "line":
+      return ["Start", "End"];
+    case "angle":
+      return ["Vertex", "Start", "End"];
+    case "circle":
+      return ["Center", "Edge"];
+    default:
+      return Array.from({ length: count }, (_, i) => `Point ${i + 1}`);
+  }
+};
+
+export const isSameRef = (
+  a: EditableRef | null,
+  b: EditableRef | null,
+): boolean => !!a && !!b && a.kind === b.kind && a.index === b.index;
+
+// Category of a stored measurement, if it has one; calibration lines have none
+export const getRefCategory = (
+  image: MeasuredImage,
+  categories: MeasurementCategory[],
+  ref: EditableRef,
+): MeasurementCategory | undefined => {
+  if (ref.kind === "calibration") return undefined;
+  const measurement: MeasurementInfo | undefined =
+    image[MEASUREMENT_LIST_KEYS[ref.kind]]?.[ref.index];
+  return findCategory(categories, measurement?.category);
+};
+
+// Shapes of hidden or locked categories can't be picked, moved or deleted on
+// the canvas
+export const isRefEditable = (
+  image: MeasuredImage,
+  categories: MeasurementCategory[],
+  ref: EditableRef,
+): boolean => isCategoryEditable(getRefCategory(image, categories, ref));
+
+// The stored measurements of an image, in list order
+const getMeasurementRefs = (image: MeasuredImage): EditableRef[] =>
+  MEASUREMENT_KINDS.flatMap((kind) =>
+    (image[MEASUREMENT_LIST_KEYS[kind]] ?? []).map((_, index) => ({
+      kind,
+      index,
+    })),
+  );
+
+// The calibration lines of an image, main (or X axis) line first
+const getCalibrationRefs = (image: MeasuredImage): EditableRef[] => [
+  ...(image.calibrationLine
+    ? [{ kind: "calibration" as const, index: 0 }]
+    : []),
+  ...(image.calibrationLineY
+    ? [{ kind: "calibration" as const, index: 1 }]
+    : []),
+];
+
+// Distance from a point to the outline of a stored measurement
+const distanceToMeasurement = (
+  image: MeasuredImage,
+  ref: MeasurementRef,
+  point: Point,
+): number => {
+  switch (ref.kind) {
+    case "line": {
+      const line = image.measurementLines?.[ref.index];
+      return line ? distanceToLineSegment(point, line.start, line.end) : NaN;
+    }
+    case "path": {
+      const path = image.measurementPaths?.[ref.index];
+      return path ? distanceToPath(point, path.points) : NaN;
+    }
+    case "polygon": {
+      const polygon = image.measurementPolygons?.[ref.index];
+      return polygon
+        ? distanceToPath(point, closePolygon(polygon.points))
+        : NaN;
+    }
+    case "angle": {
+      const angle = image.measurementAngles?.[ref.index];
+      return angle
+        ? distanceToPath(point, [angle.start, angle.vertex, angle.end])
+        : NaN;
+    }
+    case "circle": {
+      const circle = image.measurementCircles?.[ref.index];
+      return circle
+        ? Math.abs(calculateDistance(point, circle.center) - circle.radius)
+        : NaN;
+    }
+  }
+};
+
+// Find the stored measurement closest to a point, if any is within reach.
+// Lines are tried first, then paths, areas, angles and circles; measurements
+// of hidden or locked categories are passed over.
+export const findMeasurementAt = (
+  image: MeasuredImage,
+  categories: MeasurementCategory[],
+  point: Point,
+  threshold: number,
+): MeasurementRef | null => {
+  for (const kind of MEASUREMENT_KINDS) {
+    const list: MeasurementInfo[] = image[MEASUREMENT_LIST_KEYS[kind]] ?? [];
+    const index = list.findIndex(
+      (measurement, index) =>
+        isCategoryEditable(findCategory(categories, measurement.category)) &&
+        distanceToMeasurement(image, { kind, index }, point) < threshold,
+    );
+    if (index !== -1) return { kind, index };
+  }
+  return null;
+};
+
+// Find the measurement or calibration line closest to a point
+export const findEditableAt = (
+  image: MeasuredImage,
+  categories: MeasurementCategory[],
+  point: Point,
+  threshold: number,
+): EditableRef | null => {
+  const measurement = findMeasurementAt(image, categories, point, threshold);
+  if (measurement) return measurement;
+  const calibrationIndex = [image.calibrationLine, image.calibrationLineY]
+    .map((line) =>
+      line ? distanceToLineSegment(point, line.start, line.end) : NaN,
+    )
+    .findIndex((distance) => distance < threshold);
+  if (calibrationIndex !== -1) {
+    return { kind: "calibration", index: calibrationIndex };
+  }
+  return null;
+};
+
+// Find a drag handle under a point, preferring the selected shape's handles
+export const findHandleAt = (
+  image: MeasuredImage,
+  categories: MeasurementCategory[],
+  selected: EditableRef | null,
+  point: Point,
+  threshold: number,
+): { target: EditableRef; handleIndex: number } | null => {
+  const candidates: EditableRef[] = [
+    ...(selected ? [selected] : []),
+    ...getCalibrationRefs(image),
+    ...getMeasurementRefs(image),
+  ];
+
+  for (const target of candidates) {
+    if (!isRefEditable(image, categories, target)) continue;
+    const handleIndex = getEditablePoints(image, target).findIndex(
+      (handle) => calculateDistance(point, handle) < threshold,
+    );
+    if (handleIndex !== -1) return { target, handleIndex };
+  }
+  return null;
+};
+
+// The shape handle Tab moves the selection to, stepping through every handle
+// of every editable shape; null past the last handle (or before the first)
+export const getNextHandle = (
+  image: MeasuredImage,
+  categories: MeasurementCategory[],
+  selection: EditableSelection | null,
+  backwards: boolean,
+): EditableSelection | null => {
+  const shapes = [
+    ...getMeasurementRefs(image).filter((ref) =>
+      isRefEditable(image, categories, ref),
+    ),
+    ...getCalibrationRefs(image),
+  ];
+  const stops = shapes.flatMap((ref) =>
+    getEditablePoints(image, ref).map((_, handle) => ({ ...ref, handle })),
+  );
+
+  const current = stops.findIndex(
+    (stop) => isSameRef(stop, selection) && stop.handle === selection?.handle,
+  );
+  let next: number;
+  if (current !== -1) {
+    next = current + (backwards ? -1 : 1);
+  } else {
+    // From a shape selected as a whole, start at its first handle
+    const first = stops.findIndex((stop) => isSameRef(stop, selection));
+    next = first === -1 ? (backwards ? -1 : 0) : first - (backwards ? 1 : 0);
+  }
+  return stops[next] ?? null;
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  angleBetweenLines,
+  applyHomography,
+  calculateAngle,
+  calculateDistance,
+  calculatePathLength,
+  calculatePolygonArea,
+  circleThroughPoints,
+  computeHomography,
+  distanceToLineSegment,
+  distanceToPath,
+  isConvexQuad,
+  snapToAngle,
+} from "./geometry";
+
+describe("calculateDistance", () => {
+  it("measures the straight-line distance", () => {
+    expect(calculateDistance({ x: 0, y: 0 }, { x: 3, y: 4 })).toBe(5);
+  });
+});
+
+describe("distanceToLineSegment", () => {
+  const start = { x: 0, y: 0 };
+  const end = { x: 10, y: 0 };
+
+  it("measures perpendicular to the segment between its ends", () => {
+    expect(distanceToLineSegment({ x: 5, y: 3 }, start, end)).toBe(3);
+  });
+
+  it("measures to the nearest end beyond the segment", () => {
+    expect(distanceToLineSegment({ x: -3, y: 4 }, start, end)).toBe(5);
+    expect(distanceToLineSegment({ x: 13, y: 4 }, start, end)).toBe(5);
+  });
+
+  it("handles a segment of zero length", () => {
+    expect(distanceToLineSegment({ x: 3, y: 4 }, start, start)).toBe(5);
+  });
+});
+
+describe("distanceToPath", () => {
+  it("measures to the nearest segment", () => {
+    const path = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ];
+    expect(distanceToPath({ x: 12, y: 5 }, path)).toBe(2);
+  });
+});
+
+describe("snapToAngle", () => {
+  it("snaps to the nearest 45° step and keeps the length", () => {
+    const snapped = snapToAngle({ x: 0, y: 0 }, { x: 10, y: 1 });
+    expect(snapped.x).toBeCloseTo(Math.hypot(10, 1));
+    expect(snapped.y).toBeCloseTo(0);
+
+    const diagonal = snapToAngle({ x: 0, y: 0 }, { x: 10, y: 9 });
+    expect(diagonal.x).toBeCloseTo(diagonal.y);
+  });
+});
+
+describe("paths and polygons", () => {
+  const square = [
+    { x: 0, y: 0 },
+    { x: 4, y: 0 },
+    { x: 4, y: 4 },
+    { x: 0, y: 4 },
+  ];
+
+  it("adds up the segments of a path", () => {
+    expect(calculatePathLength(square)).toBe(12);
+  });
+
+  it("computes the area whatever the winding order", () => {
+    expect(calculatePolygonArea(square)).toBe(16);
+    expect(calculatePolygonArea([...square].reverse())).toBe(16);
+  });
+
+  it("recognizes convex quadrilaterals", () => {
+    expect(isConvexQuad(square)).toBe(true);
+    expect(isConvexQuad([square[0], square[2], square[1], square[3]])).toBe(
+      false,
+    );
+  });
+});
+
+describe("angles", () => {
+  it("measures the included angle at the vertex", () => {
+    expect(
+      calculateAngle({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }),
+    ).toBeCloseTo(90);
+    expect(
+      calculateAngle({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: -1, y: -0.001 }),
+    ).toBeLessThanOrEqual(180);
+  });
+
+  it("builds an angle where two lines meet", () => {
+    const angle = angleBetweenLines(
+      { start: { x: 0, y: 0 }, end: { x: 8, y: 0 } },
+      { start: { x: 5, y: 5 }, end: { x: 5, y: 1 } },
+    );
+    expect(angle?.vertex.x).toBeCloseTo(5);
+    expect(angle?.vertex.y).toBeCloseTo(0);
+    expect(angle?.start).toEqual({ x: 0, y: 0 });
+    expect(angle?.end).toEqual({ x: 5, y: 5 });
+  });
+
+  it("finds no angle between parallel lines", () => {
+    expect(
+      angleBetweenLines(
+        { start: { x: 0, y: 0 }, end: { x: 10, y: 0 } },
+        { start: { x: 0, y: 1 }, end: { x: 10, y: 1 } },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("circleThroughPoints", () => {
+  it("fits the circle through three points", () => {
+    const circle = circleThroughPoints(
+      { x: 5, y: 0 },
+      { x: 0, y: 5 },
+      { x: -5, y: 0 },
+    );
+    expect(circle?.center.x).toBeCloseTo(0);
+    expect(circle?.center.y).toBeCloseTo(0);
+    expect(circle?.radius).toBeCloseTo(5);
+  });
+
+  it("rejects collinear points", () => {
+    expect(
+      circleThroughPoints({ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }),
+    ).toBeNull();
+  });
+});
+
+describe("homographies", () => {
+  it("maps the corners it was computed from", () => {
+    const from = [
+      { x: 10, y: 10 },
+      { x: 110, y: 20 },
+      { x: 100, y: 90 },
+      { x: 5, y: 80 },
+    ];
+    const to = [
+      { x: 0, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 10 },
+      { x: 0, y: 10 },
+    ];
+    const homography = computeHomography(from, to);
+    expect(homography).not.toBeNull();
+    from.forEach((point, index) => {
+      const mapped = applyHomography(homography!, point);
+      expect(mapped.x).toBeCloseTo(to[index].x);
+      expect(mapped.y).toBeCloseTo(to[index].y);
+    });
+  });
+});
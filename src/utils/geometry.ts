@@ -0,0 +1,271 @@
+// Pure geometry helpers shared by the viewer, the exporters and the CLI.
+// All coordinates are in natural image pixels.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Line {
+  start: Point;
+  end: Point;
+}
+
+export interface Polyline {
+  points: Point[];
+}
+
+export interface Polygon {
+  points: Point[];
+}
+
+export interface Angle {
+  vertex: Point;
+  start: Point;
+  end: Point;
+}
+
+export interface Circle {
+  center: Point;
+  radius: number;
+}
+
+// Helper function to calculate distance between two points
+export const calculateDistance = (p1: Point, p2: Point): number => {
+  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+};
+
+// Helper function to calculate the total length of a path
+export const calculatePathLength = (points: Point[]): number => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += calculateDistance(points[i - 1], points[i]);
+  }
+  return length;
+};
+
+// Helper function to calculate the area of a polygon (shoelace formula)
+export const calculatePolygonArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    area += current.x * next.y - next.x * current.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Helper function to close a polygon's outline back to its first vertex
+export const closePolygon = (points: Point[]): Point[] =>
+  points.length > 0 ? [...points, points[0]] : points;
+
+// Helper function to calculate the included angle at a vertex, in degrees (0-180)
+export const calculateAngle = (
+  vertex: Point,
+  start: Point,
+  end: Point,
+): number => {
+  const startAngle = Math.atan2(start.y - vertex.y, start.x - vertex.x);
+  const endAngle = Math.atan2(end.y - vertex.y, end.x - vertex.x);
+  let degrees = Math.abs(endAngle - startAngle) * (180 / Math.PI);
+  if (degrees > 180) degrees = 360 - degrees;
+  return degrees;
+};
+
+// Helper function to calculate distance from a point to a line segment
+export const distanceToLineSegment = (
+  point: Point,
+  lineStart: Point,
+  lineEnd: Point,
+): number => {
+  const A = point.x - lineStart.x;
+  const B = point.y - lineStart.y;
+  const C = lineEnd.x - lineStart.x;
+  const D = lineEnd.y - lineStart.y;
+
+  const dot = A * C + B * D;
+  const lenSq = C * C + D * D;
+  let param = -1;
+
+  if (lenSq !== 0) param = dot / lenSq;
+
+  let xx, yy;
+
+  if (param < 0) {
+    xx = lineStart.x;
+    yy = lineStart.y;
+  } else if (param > 1) {
+    xx = lineEnd.x;
+    yy = lineEnd.y;
+  } else {
+    xx = lineStart.x + param * C;
+    yy = lineStart.y + param * D;
+  }
+
+  const dx = point.x - xx;
+  const dy = point.y - yy;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+// Helper function to calculate the distance from a point to the nearest segment of a path
+export const distanceToPath = (point: Point, points: Point[]): number => {
+  let minDistance = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    minDistance = Math.min(
+      minDistance,
+      distanceToLineSegment(point, points[i - 1], points[i]),
+    );
+  }
+  return minDistance;
+};
+
+// Helper function to build an angle from two lines, meeting where they intersect
+export const angleBetweenLines = (first: Line, second: Line): Angle | null => {
+  const d1x = first.end.x - first.start.x;
+  const d1y = first.end.y - first.start.y;
+  const d2x = second.end.x - second.start.x;
+  const d2y = second.end.y - second.start.y;
+
+  // Parallel lines never meet, so there is no angle between them
+  const denominator = d1x * d2y - d1y * d2x;
+  if (Math.abs(denominator) < 1e-9) return null;
+
+  const t =
+    ((second.start.x - first.start.x) * d2y -
+      (second.start.y - first.start.y) * d2x) /
+    denominator;
+  const vertex = { x: first.start.x + t * d1x, y: first.start.y + t * d1y };
+
+  // Each arm points towards the end of its line farthest from the vertex
+  const farthest = (line: Line) =>
+    calculateDistance(vertex, line.start) > calculateDistance(vertex, line.end)
+      ? line.start
+      : line.end;
+
+  return { vertex, start: farthest(first), end: farthest(second) };
+};
+
+// Helper function to fit the circle passing through three points
+export const circleThroughPoints = (
+  a: Point,
+  b: Point,
+  c: Point,
+): Circle | null => {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+
+  // Collinear points don't define a circle
+  if (Math.abs(d) < 1e-9) return null;
+
+  const aSq = a.x * a.x + a.y * a.y;
+  const bSq = b.x * b.x + b.y * b.y;
+  const cSq = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (aSq * (b.y - c.y) + bSq * (c.y - a.y) + cSq * (a.y - b.y)) / d,
+    y: (aSq * (c.x - b.x) + bSq * (a.x - c.x) + cSq * (b.x - a.x)) / d,
+  };
+  return { center, radius: calculateDistance(center, a) };
+};
+
+// Helper function to snap point to nearest 45-degree angle
+export const snapToAngle = (start: Point, end: Point): Point => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Calculate angle in radians
+  const angle = Math.atan2(dy, dx);
+
+  // Convert to degrees and snap to nearest 45°
+  const degrees = angle * (180 / Math.PI);
+  const snappedDegrees = Math.round(degrees / 45) * 45;
+
+  // Convert back to radians
+  const snappedRadians = snappedDegrees * (Math.PI / 180);
+
+  // Calculate new end point
+  return {
+    x: start.x + distance * Math.cos(snappedRadians),
+    y: start.y + distance * Math.sin(snappedRadians),
+  };
+};
+
+// Projective transform as a row-major 3x3 matrix
+export type Homography = number[];
+
+// Solve a small dense linear system with Gaussian elimination, or return
+// null when it is singular
+const solveLinearSystem = (matrix: number[][], values: number[]) => {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+
+  for (let col = 0; col < n; col++) {
+    // Partial pivoting keeps the elimination numerically stable
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * solution[k];
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+};
+
+// Helper function to compute the homography mapping four points onto four others
+export const computeHomography = (
+  source: Point[],
+  target: Point[],
+): Homography | null => {
+  if (source.length !== 4 || target.length !== 4) return null;
+
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  source.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = target[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  });
+
+  const solution = solveLinearSystem(matrix, values);
+  return solution ? [...solution, 1] : null;
+};
+
+// Helper function to map a point through a homography
+export const applyHomography = (
+  homography: Homography,
+  point: Point,
+): Point => {
+  const [a, b, c, d, e, f, g, h, i] = homography;
+  const w = g * point.x + h * point.y + i;
+  return {
+    x: (a * point.x + b * point.y + c) / w,
+    y: (d * point.x + e * point.y + f) / w,
+  };
+};
+
+// Helper function to check that four points form a convex, non-degenerate quadrilateral
+export const isConvexQuad = (points: Point[]): boolean => {
+  if (points.length !== 4) return false;
+  const crosses = points.map((point, i) => {
+    const next = points[(i + 1) % 4];
+    const after = points[(i + 2) % 4];
+    return (
+      (next.x - point.x) * (after.y - next.y) -
+      (next.y - point.y) * (after.x - next.x)
+    );
+  });
+  return crosses.every((c) => c > 1e-9) || crosses.every((c) => c < -1e-9);
+};
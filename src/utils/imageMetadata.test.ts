@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readImageResolution } from "./imageMetadata";
+
+// Byte builders for the file structures the reader understands
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+const u16 = (value: number, littleEndian = false) => {
+  const bytes = [value >> 8, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+};
+const u32 = (value: number, littleEndian = false) => {
+  const bytes = [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff);
+  return littleEndian ? bytes.reverse() : bytes;
+};
+
+const pngChunk = (type: string, data: number[]) => [
+  ...u32(data.length),
+  ...ascii(type),
+  ...data,
+  ...u32(0),
+];
+
+// A PNG whose pHYs chunk gives pixels per meter, or per nothing for unit 0
+const png = (pixelsPerMeter: number, unit = 1) => [
+  0x89,
+  0x50,
+  0x4e,
+  0x47,
+  0x0d,
+  0x0a,
+  0x1a,
+  0x0a,
+  ...pngChunk("IHDR", new Array(13).fill(0)),
+  ...pngChunk("pHYs", [...u32(pixelsPerMeter), ...u32(pixelsPerMeter), unit]),
+  ...pngChunk("IDAT", []),
+  ...pngChunk("IEND", []),
+];
+
+const jpegSegment = (marker: number, data: number[]) => [
+  0xff,
+  marker,
+  ...u16(data.length + 2),
+  ...data,
+];
+
+const jpeg = (...segments: number[][]) => [
+  0xff,
+  0xd8,
+  ...segments.flat(),
+  0xff,
+  0xda,
+  ...u16(2),
+];
+
+// JFIF density: unit 1 is per inch, 2 per centimeter
+const jfif = (unit: number, x: number, y = x) =>
+  jpegSegment(0xe0, [
+    ...ascii("JFIF\0"),
+    1,
+    2,
+    unit,
+    ...u16(x),
+    ...u16(y),
+    0,
+    0,
+  ]);
+
+interface TiffTags {
+  x: number;
+  y: number;
+  // 2 for inches, 3 for centimeters
+  unit: number;
+  // Whether the camera's make is recorded
+  make?: boolean;
+}
+
+const tiff = (littleEndian: boolean, { x, y, unit, make }: TiffTags) => {
+  const count = make ? 4 : 3;
+  // The resolutions follow the directory
+  const values = 8 + 2 + count * 12 + 4;
+  const entry = (tag: number, type: number, value: number[]) => [
+    ...u16(tag, littleEndian),
+    ...u16(type, littleEndian),
+    ...u32(1, littleEndian),
+    ...value,
+  ];
+  return [
+    ...ascii(littleEndian ? "II" : "MM"),
+    ...u16(42, littleEndian),
+    ...u32(8, littleEndian),
+    ...u16(count, littleEndian),
+    ...(make ? entry(0x010f, 2, ascii("Cam\0")) : []),
+    ...entry(0x011a, 5, u32(values, littleEndian)),
+    ...entry(0x011b, 5, u32(values + 8, littleEndian)),
+    ...entry(0x0128, 3, [...u16(unit, littleEndian), 0, 0]),
+    ...u32(0, littleEndian),
+    ...u32(x, littleEndian),
+    ...u32(1, littleEndian),
+    ...u32(y, littleEndian),
+    ...u32(1, littleEndian),
+  ];
+};
+
+const exif = (tags: number[]) =>
+  jpegSegment(0xe1, [...ascii("Exif\0\0"), ...tags]);
+
+const read = (bytes: number[]) =>
+  readImageResolution(new Blob([new Uint8Array(bytes)]));
+
+const PER_INCH_300 = { x: 300 / 2.54, y: 300 / 2.54 };
+
+const expectResolution = async (
+  bytes: number[],
+  expected: { x: number; y: number },
+) => {
+  const resolution = await read(bytes);
+  expect(resolution?.x).toBeCloseTo(expected.x, 1);
+  expect(resolution?.y).toBeCloseTo(expected.y, 1);
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("readImageResolution", () => {
+  it("reads the pHYs chunk of a PNG", async () => {
+    await expectResolution(png(11811), PER_INCH_300);
+  });
+
+  it("ignores a PNG that only records an aspect ratio", async () => {
+    expect(await read(png(11811, 0))).toBeNull();
+  });
+
+  it("reads the JFIF density of a JPEG", async () => {
+    await expectResolution(jpeg(jfif(1, 300)), PER_INCH_300);
+    await expectResolution(jpeg(jfif(2, 100, 50)), { x: 100, y: 50 });
+  });
+
+  it("reads big-endian EXIF tags", async () => {
+    await expectResolution(
+      jpeg(exif(tiff(false, { x: 300, y: 300, unit: 2 }))),
+      PER_INCH_300,
+    );
+  });
+
+  it("reads little-endian EXIF tags", async () => {
+    await expectResolution(
+      jpeg(exif(tiff(true, { x: 600, y: 300, unit: 3 }))),
+      { x: 600, y: 300 },
+    );
+  });
+
+  it("reads the tags of a TIFF file", async () => {
+    await expectResolution(
+      tiff(true, { x: 300, y: 300, unit: 2 }),
+      PER_INCH_300,
+    );
+  });
+
+  it.each([
+    ["a 72 dpi JFIF density", jpeg(jfif(1, 72))],
+    ["a 96 dpi PNG", png(3780)],
+    ["72 dpi EXIF tags", jpeg(exif(tiff(true, { x: 72, y: 72, unit: 2 })))],
+    [
+      "a camera's EXIF tags",
+      jpeg(exif(tiff(false, { x: 300, y: 300, unit: 2, make: true }))),
+    ],
+  ])("ignores %s", async (_, bytes) => {
+    expect(await read(bytes)).toBeNull();
+  });
+
+  it("falls back to EXIF when the JFIF density is a placeholder", async () => {
+    await expectResolution(
+      jpeg(jfif(1, 72), exif(tiff(false, { x: 300, y: 300, unit: 2 }))),
+      PER_INCH_300,
+    );
+  });
+
+  it.each([
+    ["PNG", png(11811)],
+    ["JFIF", jpeg(jfif(1, 300))],
+    ["big-endian EXIF", jpeg(exif(tiff(false, { x: 300, y: 300, unit: 2 })))],
+    ["little-endian EXIF", jpeg(exif(tiff(true, { x: 300, y: 300, unit: 2 })))],
+  ])("reads truncated %s files without errors", async (_, bytes) => {
+    const error = vi.spyOn(console, "error");
+    for (let length = 0; length < bytes.length; length++) {
+      const resolution = await read(bytes.slice(0, length));
+      // Cut off after the resolution, the file still records it
+      if (resolution) expect(resolution.x).toBeCloseTo(PER_INCH_300.x, 1);
+    }
+    expect(error).not.toHaveBeenCalled();
+  });
+});
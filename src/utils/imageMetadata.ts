@@ -0,0 +1,171 @@
+// Resolution metadata of image files, used as the scale of images that
+// haven't been calibrated yet. Scanners and drawing programs record how many
+// pixels make up an inch or a centimeter: PNG in its pHYs chunk, JPEG in the
+// JFIF header or the EXIF tags, TIFF in its own tags. Cameras and most other
+// programs write a meaningless default instead, which is ignored.
+
+import { toCentimeters } from "./units";
+
+// Where an image's scale came from when it wasn't calibrated by the user
+export type ScaleSource = "metadata";
+
+// Pixels per cm along each axis
+export interface ImageResolution {
+  x: number;
+  y: number;
+}
+
+// Headers and metadata segments sit at the start of PNG and JPEG files
+const HEADER_BYTES = 256 * 1024;
+
+const INCHES_PER_CM = 1 / toCentimeters(1, "in");
+
+const isResolution = (x: number, y: number) =>
+  Number.isFinite(x) && Number.isFinite(y) && x > 0 && y > 0;
+
+// Pixels per inch written by programs that don't know the real resolution
+const PLACEHOLDER_DPI = [72, 96];
+
+const isPlaceholder = ({ x, y }: ImageResolution) =>
+  PLACEHOLDER_DPI.some(
+    (dpi) =>
+      Math.abs(x / INCHES_PER_CM - dpi) < 0.5 &&
+      Math.abs(y / INCHES_PER_CM - dpi) < 0.5,
+  );
+
+// pHYs chunk: pixels per unit along X and Y, and a unit that is either
+// meters or unknown (only an aspect ratio)
+const readPng = (view: DataView): ImageResolution | null => {
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(
+      ...new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4),
+    );
+    if (type === "pHYs" && length >= 9 && offset + 17 <= view.byteLength) {
+      const x = view.getUint32(offset + 8);
+      const y = view.getUint32(offset + 12);
+      const unit = view.getUint8(offset + 16);
+      return unit === 1 && isResolution(x, y)
+        ? { x: x / 100, y: y / 100 }
+        : null;
+    }
+    // The chunk must come before the image data
+    if (type === "IDAT" || type === "IEND") return null;
+    offset += length + 12;
+  }
+  return null;
+};
+
+// TIFF structure, also used inside EXIF: XResolution, YResolution and
+// ResolutionUnit tags of the first image directory. Files from cameras, which
+// name their make or model, record no physical resolution.
+const readTiff = (view: DataView, start: number): ImageResolution | null => {
+  if (start + 8 > view.byteLength) return null;
+  const byteOrder = view.getUint16(start);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const littleEndian = byteOrder === 0x4949;
+  const uint16 = (offset: number) =>
+    view.getUint16(start + offset, littleEndian);
+  const uint32 = (offset: number) =>
+    view.getUint32(start + offset, littleEndian);
+  if (uint16(2) !== 42) return null;
+
+  const directory = uint32(4);
+  if (start + directory + 2 > view.byteLength) return null;
+  const entries = uint16(directory);
+  const rational = (entry: number) => {
+    const valueOffset = uint32(entry + 8);
+    if (start + valueOffset + 8 > view.byteLength) return NaN;
+    return uint32(valueOffset) / uint32(valueOffset + 4);
+  };
+
+  let x = NaN;
+  let y = NaN;
+  // Inches unless stated otherwise
+  let unit = 2;
+  let isFromCamera = false;
+  for (let i = 0; i < entries; i++) {
+    const entry = directory + 2 + i * 12;
+    if (start + entry + 12 > view.byteLength) break;
+    const tag = uint16(entry);
+    if (tag === 0x011a) x = rational(entry);
+    else if (tag === 0x011b) y = rational(entry);
+    else if (tag === 0x0128) unit = uint16(entry + 8);
+    else if (tag === 0x010f || tag === 0x0110) isFromCamera = true;
+  }
+  if (isFromCamera || !isResolution(x, y)) return null;
+  if (unit === 2) return { x: x * INCHES_PER_CM, y: y * INCHES_PER_CM };
+  if (unit === 3) return { x, y };
+  return null;
+};
+
+// JFIF density in APP0, or failing that the EXIF tags in APP1
+const readJpeg = (view: DataView): ImageResolution | null => {
+  let offset = 2;
+  let exif: ImageResolution | null = null;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return exif;
+    const marker = view.getUint8(offset + 1);
+    // Metadata segments all come before the start of the scan
+    if (marker === 0xda || marker === 0xd9) return exif;
+    const length = view.getUint16(offset + 2);
+    const segment = offset + 4;
+    const identifier = (text: string) =>
+      segment + text.length <= view.byteLength &&
+      [...text].every(
+        (char, i) => view.getUint8(segment + i) === char.charCodeAt(0),
+      );
+
+    if (
+      marker === 0xe0 &&
+      identifier("JFIF\0") &&
+      segment + 12 <= view.byteLength
+    ) {
+      const unit = view.getUint8(segment + 7);
+      const x = view.getUint16(segment + 8);
+      const y = view.getUint16(segment + 10);
+      const resolution =
+        unit === 1
+          ? { x: x * INCHES_PER_CM, y: y * INCHES_PER_CM }
+          : unit === 2
+            ? { x, y }
+            : null;
+      // A placeholder density leaves it to the EXIF tags
+      if (resolution && isResolution(x, y) && !isPlaceholder(resolution)) {
+        return resolution;
+      }
+    } else if (marker === 0xe1 && identifier("Exif\0\0")) {
+      exif = readTiff(view, segment + 6);
+    }
+    offset = segment + length - 2;
+  }
+  return exif;
+};
+
+const readResolution = async (file: Blob): Promise<ImageResolution | null> => {
+  const header = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.byteLength < 8) return null;
+  if (header.getUint32(0) === 0x89504e47) return readPng(header);
+  if (header.getUint16(0) === 0xffd8) return readJpeg(header);
+  const byteOrder = header.getUint16(0);
+  if (byteOrder === 0x4949 || byteOrder === 0x4d4d) {
+    // TIFF tags can be stored anywhere in the file
+    return readTiff(new DataView(await file.arrayBuffer()), 0);
+  }
+  return null;
+};
+
+// Read the resolution an image file was saved with, or null when it doesn't
+// record a real one in physical units
+export const readImageResolution = async (
+  file: Blob,
+): Promise<ImageResolution | null> => {
+  try {
+    const resolution = await readResolution(file);
+    return resolution && !isPlaceholder(resolution) ? resolution : null;
+  } catch (error) {
+    console.error("Failed to read image resolution:", error);
+    return null;
+  }
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMeasurementSpace,
+  createPerspectiveCalibration,
+  measureAngle,
+  measureCircle,
+  measureDistance,
+  measurePathLength,
+  measurePolygonArea,
+  pointAtDistance,
+} from "./measure";
+
+const origin = { x: 0, y: 0 };
+
+describe("uniform scale", () => {
+  const space = createMeasurementSpace({ scale: 50, unit: "mm" });
+
+  it("converts lengths and areas into the unit", () => {
+    expect(measureDistance(space, origin, { x: 300, y: 400 })).toBeCloseTo(100);
+    expect(
+      measurePathLength(space, [origin, { x: 50, y: 0 }, { x: 50, y: 50 }]),
+    ).toBeCloseTo(20);
+    expect(
+      measurePolygonArea(space, [
+        origin,
+        { x: 50, y: 0 },
+        { x: 50, y: 50 },
+        { x: 0, y: 50 },
+      ]),
+    ).toBeCloseTo(100);
+  });
+
+  it("measures circles directly", () => {
+    const circle = measureCircle(space, origin, 50);
+    expect(circle.diameter).toBeCloseTo(20);
+    expect(circle.area).toBeCloseTo(Math.PI * 100);
+  });
+
+  it("falls back to the default scale", () => {
+    const fallback = createMeasurementSpace({ unit: "cm" });
+    expect(measureDistance(fallback, origin, { x: 96, y: 0 })).toBeCloseTo(1);
+  });
+
+  it("leaves pixel measurements as they are", () => {
+    const pixels = createMeasurementSpace({ scale: 50, unit: "px" });
+    expect(measureDistance(pixels, origin, { x: 3, y: 4 })).toBe(5);
+  });
+});
+
+describe("non-square pixels", () => {
+  const space = createMeasurementSpace({ scale: 10, scaleY: 20, unit: "cm" });
+
+  it("scales each axis separately", () => {
+    expect(space.isUniform).toBe(false);
+    expect(measureDistance(space, origin, { x: 10, y: 0 })).toBeCloseTo(1);
+    expect(measureDistance(space, origin, { x: 0, y: 10 })).toBeCloseTo(0.5);
+  });
+
+  it("keeps angles true to the measured plane", () => {
+    expect(
+      measureAngle(space, origin, { x: 10, y: 0 }, { x: 10, y: 20 }),
+    ).toBeCloseTo(45);
+  });
+
+  it("measures a drawn circle as the oval it covers", () => {
+    const circle = measureCircle(space, origin, 20);
+    expect(circle.area).toBeCloseTo(Math.PI * 2 * 1, 1);
+  });
+});
+
+describe("perspective", () => {
+  const perspective = createPerspectiveCalibration(
+    [
+      { x: 100, y: 100 },
+      { x: 300, y: 120 },
+      { x: 280, y: 260 },
+      { x: 90, y: 240 },
+    ],
+    20,
+    10,
+  );
+  const space = createMeasurementSpace({
+    unit: "cm",
+    perspective: perspective!,
+  });
+
+  it("measures the reference rectangle at its real size", () => {
+    expect(
+      measureDistance(space, { x: 100, y: 100 }, { x: 300, y: 120 }),
+    ).toBeCloseTo(20);
+    expect(
+      measureDistance(space, { x: 300, y: 120 }, { x: 280, y: 260 }),
+    ).toBeCloseTo(10);
+  });
+});
+
+describe("pointAtDistance", () => {
+  it("finds the point at a length along a direction", () => {
+    const space = createMeasurementSpace({ scale: 10, scaleY: 20, unit: "cm" });
+    const point = pointAtDistance(space, origin, { x: 0, y: 1 }, 3);
+    expect(point?.x).toBeCloseTo(0);
+    expect(point?.y).toBeCloseTo(60);
+  });
+
+  it("has no point without a direction", () => {
+    const space = createMeasurementSpace({ scale: 10, unit: "cm" });
+    expect(pointAtDistance(space, origin, origin, 1)).toBeNull();
+  });
+});
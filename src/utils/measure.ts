@@ -0,0 +1,229 @@
+// Real-world measurement of image geometry. Every length, area and angle is
+// computed by first mapping image pixels into a measurement plane: a
+// pixels-per-cm scale for square-on photos (optionally different along each
+// axis), or a homography from a reference rectangle for photos taken at an
+// angle.
+
+import {
+  applyHomography,
+  calculateAngle,
+  computeHomography,
+  calculateDistance,
+  calculatePathLength,
+  calculatePolygonArea,
+  closePolygon,
+  type Homography,
+  type Point,
+} from "./geometry";
+import {
+  DEFAULT_SCALE,
+  DEFAULT_UNIT,
+  UNITS,
+  fromCentimeters,
+  type Unit,
+} from "./units";
+
+// Perspective calibration from a rectangle of known size
+export interface PerspectiveCalibration {
+  // Rectangle corners in image pixels, in the order they were clicked
+  corners: Point[];
+  // Real size of the rectangle in centimeters; width runs from the first
+  // corner to the second
+  width: number;
+  height: number;
+  // How far, in centimeters, the real size may be off
+  tolerance?: number;
+  // Maps image pixels onto the rectangle's plane, in centimeters
+  homography: Homography;
+}
+
+// The parts of an image that decide how it is measured
+export interface CalibratedImage {
+  // Pixels per cm; along the X axis only when scaleY is set
+  scale?: number;
+  // Pixels per cm along the Y axis, for images with non-square pixels
+  scaleY?: number;
+  unit?: Unit;
+  perspective?: PerspectiveCalibration;
+}
+
+export interface MeasurementSpace {
+  unit: Unit;
+  // Map an image point into the plane: centimeters, or pixels for px
+  toPlane: (point: Point) => Point;
+  // Whether the mapping keeps shapes' proportions, so circles stay circles
+  isUniform: boolean;
+}
+
+export interface CircleMeasurement {
+  radius: number;
+  diameter: number;
+  circumference: number;
+  area: number;
+}
+
+// Map the corners, in click order, onto the rectangle's real size in cm; null
+// when the corners don't define a usable rectangle
+export const createPerspectiveCalibration = (
+  corners: Point[],
+  width: number,
+  height: number,
+  tolerance?: number,
+): PerspectiveCalibration | null => {
+  const homography = computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]);
+  return homography ? { corners, width, height, tolerance, homography } : null;
+};
+
+export const createMeasurementSpace = (
+  image: CalibratedImage,
+): MeasurementSpace => {
+  const unit = image.unit || DEFAULT_UNIT;
+
+  // Pixel measurements are taken on the image as it is
+  if (unit === "px") {
+    return { unit, isUniform: true, toPlane: (point) => point };
+  }
+
+  const { perspective } = image;
+  if (perspective) {
+    return {
+      unit,
+      isUniform: false,
+      toPlane: (point) => applyHomography(perspective.homography, point),
+    };
+  }
+
+  const scale = image.scale || DEFAULT_SCALE;
+  const scaleY = image.scaleY || scale;
+  return {
+    unit,
+    isUniform: scaleY === scale,
+    toPlane: (point) => ({ x: point.x / scale, y: point.y / scaleY }),
+  };
+};
+
+const planeLengthToUnit = (space: MeasurementSpace, value: number) =>
+  space.unit === "px" ? value : fromCentimeters(value, space.unit);
+
+const planeAreaToUnit = (space: MeasurementSpace, value: number) => {
+  const centimeters = UNITS[space.unit].centimeters ?? 1;
+  return value / (centimeters * centimeters);
+};
+
+// Length between two image points, in the space's unit
+export const measureDistance = (
+  space: MeasurementSpace,
+  start: Point,
+  end: Point,
+): number =>
+  planeLengthToUnit(
+    space,
+    calculateDistance(space.toPlane(start), space.toPlane(end)),
+  );
+
+// Image point on the ray from start through towards that lies the given
+// length from start in the space's unit; null when no point on the ray is
+// that far, such as beyond a perspective plane's horizon
+export const pointAtDistance = (
+  space: MeasurementSpace,
+  start: Point,
+  towards: Point,
+  length: number,
+): Point | null => {
+  const dx = towards.x - start.x;
+  const dy = towards.y - start.y;
+  if (dx === 0 && dy === 0) return null;
+  const at = (t: number) => ({ x: start.x + dx * t, y: start.y + dy * t });
+  const distanceAt = (t: number) => measureDistance(space, start, at(t));
+
+  // Find a point past the target, then close in on it
+  let low = 0;
+  let high = 1;
+  for (let i = 0; distanceAt(high) < length; i++) {
+    const next = distanceAt(high * 2);
+    if (i >= 60 || !Number.isFinite(next) || next <= distanceAt(high)) {
+      return null;
+    }
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < 60; i++) {
+    const middle = (low + high) / 2;
+    if (distanceAt(middle) < length) low = middle;
+    else high = middle;
+  }
+  return at((low + high) / 2);
+};
+
+// Total length of a path through image points, in the space's unit
+export const measurePathLength = (
+  space: MeasurementSpace,
+  points: Point[],
+): number =>
+  planeLengthToUnit(space, calculatePathLength(points.map(space.toPlane)));
+
+// Area enclosed by image points, in the space's unit squared
+export const measurePolygonArea = (
+  space: MeasurementSpace,
+  points: Point[],
+): number =>
+  planeAreaToUnit(space, calculatePolygonArea(points.map(space.toPlane)));
+
+// Included angle at a vertex as it is on the measured plane, in degrees
+export const measureAngle = (
+  space: MeasurementSpace,
+  vertex: Point,
+  start: Point,
+  end: Point,
+): number =>
+  calculateAngle(
+    space.toPlane(vertex),
+    space.toPlane(start),
+    space.toPlane(end),
+  );
+
+// Points sampled along a circle's outline when it has to be measured as a shape
+const CIRCLE_SAMPLES = 72;
+
+export const measureCircle = (
+  space: MeasurementSpace,
+  center: Point,
+  radius: number,
+): CircleMeasurement => {
+  if (space.isUniform) {
+    const r = measureDistance(space, center, {
+      x: center.x + radius,
+      y: center.y,
+    });
+    return {
+      radius: r,
+      diameter: r * 2,
+      circumference: 2 * Math.PI * r,
+      area: Math.PI * r * r,
+    };
+  }
+
+  // Off-axis or with unequal axis scales a drawn circle covers an oval on the
+  // plane: measure its outline and report the radius of the circle with the
+  // same area
+  const outline = Array.from({ length: CIRCLE_SAMPLES }, (_, i) => {
+    const angle = (i / CIRCLE_SAMPLES) * Math.PI * 2;
+    return {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    };
+  });
+  const area = measurePolygonArea(space, outline);
+  const r = Math.sqrt(area / Math.PI);
+  return {
+    radius: r,
+    diameter: r * 2,
+    circumference: measurePathLength(space, closePolygon(outline)),
+    area,
+  };
+};
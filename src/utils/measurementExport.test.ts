@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { MeasuredImage } from "./measurements";
+import type { MeasurementCategory } from "./categories";
+import {
+  getMeasurementRows,
+  measurementsToCsv,
+  measurementsToJson,
+} from "./measurementExport";
+
+const image: MeasuredImage = {
+  id: "a",
+  name: "bench, left.png",
+  unit: "cm",
+  scale: 50,
+  measurementLines: [
+    {
+      id: "l1",
+      name: "Width",
+      notes: 'The "long" side',
+      category: "size",
+      start: { x: 0, y: 0 },
+      end: { x: 300, y: 400 },
+    },
+  ],
+  measurementPolygons: [
+    {
+      id: "p1",
+      points: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+        { x: 0, y: 100 },
+      ],
+    },
+  ],
+  measurementAngles: [
+    {
+      id: "a1",
+      vertex: { x: 0, y: 0 },
+      start: { x: 10, y: 0 },
+      end: { x: 0, y: 10 },
+    },
+  ],
+};
+
+const categories: MeasurementCategory[] = [
+  {
+    id: "size",
+    name: "Overall size",
+    color: "#44aaff",
+    lineStyle: "solid",
+    visible: true,
+    locked: false,
+  },
+];
+
+describe("getMeasurementRows", () => {
+  it("measures every kind in the image's unit", () => {
+    const rows = getMeasurementRows(image);
+    expect(rows.map((row) => row.type)).toEqual(["line", "polygon", "angle"]);
+
+    const [line, polygon, angle] = rows;
+    expect(line).toMatchObject({
+      id: "l1",
+      name: "Width",
+      pixelLength: 500,
+      unit: "cm",
+      scale: 50,
+      scaleY: 50,
+    });
+    expect(line.length).toBeCloseTo(10);
+    expect(polygon.name).toBe("Area 1");
+    expect(polygon.pixelArea).toBe(10000);
+    expect(polygon.area).toBeCloseTo(4);
+    expect(polygon.length).toBeCloseTo(8);
+    expect(angle.angle).toBeCloseTo(90);
+  });
+
+  it("names the category of each measurement", () => {
+    const [line, polygon] = getMeasurementRows(image, categories);
+    expect(line.category).toBe("Overall size");
+    expect(polygon.category).toBeNull();
+    // Without the categories a dangling id isn't reported
+    expect(getMeasurementRows(image)[0].category).toBeNull();
+  });
+
+  it("reports scales in pixels per display unit", () => {
+    const [line] = getMeasurementRows({ ...image, unit: "mm" });
+    expect(line.length).toBeCloseTo(100);
+    expect(line.scale).toBeCloseTo(5);
+  });
+
+  it("leaves real values empty for uncalibrated images", () => {
+    const [line] = getMeasurementRows({ ...image, scale: undefined });
+    expect(line.pixelLength).toBe(500);
+    expect(line.length).toBeNull();
+    expect(line.scale).toBeNull();
+  });
+});
+
+describe("measurementsToCsv", () => {
+  it("writes a header and one quoted-as-needed line per measurement", () => {
+    const lines = measurementsToCsv([image], categories).split("\r\n");
+    expect(lines[0]).toMatch(/^image,id,name,type,points_px,/);
+    expect(lines[1]).toMatch(/^"bench, left\.png",l1,Width,line,0 0; 300 400,/);
+    expect(lines[0]).toMatch(/,category,notes$/);
+    expect(lines[1]).toMatch(/,Overall size,"The ""long"" side"$/);
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe("");
+  });
+
+  it("keeps user text from being run as a formula", () => {
+    const [line] = image.measurementLines!;
+    const csv = measurementsToCsv([
+      {
+        ...image,
+        name: "=HYPERLINK(1)",
+        measurementLines: [{ ...line, name: "-5", notes: "@SUM(A1)" }],
+        measurementPolygons: [],
+        measurementAngles: [],
+      },
+    ]);
+    const [, row] = csv.split("\r\n");
+    expect(row).toMatch(/^"'=HYPERLINK\(1\)",l1,"'-5",line,/);
+    expect(row).toMatch(/,"'@SUM\(A1\)"$/);
+  });
+});
+
+describe("measurementsToJson", () => {
+  it("groups measurements by image", () => {
+    const [exported] = JSON.parse(measurementsToJson([image], categories));
+    expect(exported.id).toBe("a");
+    expect(exported.name).toBe("bench, left.png");
+    expect(exported.measurements).toHaveLength(3);
+    expect(exported.measurements[0].image).toBeUndefined();
+    expect(exported.measurements[0].length).toBeCloseTo(10);
+    expect(exported.measurements[0].category).toBe("Overall size");
+  });
+});
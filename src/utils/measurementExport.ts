@@ -0,0 +1,281 @@
+// Builds tables of measurements for export to spreadsheets (CSV) or other
+// tools (JSON). Lengths are reported both in pixels and in the image's unit,
+// the latter along with its estimated uncertainty.
+
+import {
+  calculateDistance,
+  calculatePathLength,
+  calculatePolygonArea,
+  closePolygon,
+  type Point,
+} from "./geometry";
+import {
+  angleWithUncertainty,
+  circleWithUncertainty,
+  createUncertaintyModel,
+  distanceWithUncertainty,
+  getCircleExtent,
+  isExtrapolated,
+  pathLengthWithUncertainty,
+  polygonAreaWithUncertainty,
+  type UncertainValue,
+} from "./uncertainty";
+import { UNITS, type Unit } from "./units";
+import {
+  getMeasurementName,
+  type MeasuredImage,
+  type MeasurementInfo,
+  type MeasurementKind,
+} from "./measurements";
+import { findCategory, type MeasurementCategory } from "./categories";
+
+export type ExportFormat = "csv" | "json";
+
+// The images the exporter reads, with any shared calibration resolved
+export type ExportableImage = MeasuredImage;
+
+export interface MeasurementRow {
+  image: string;
+  id: string;
+  name: string;
+  notes: string;
+  // Name of the measurement's category, if it has one
+  category: string | null;
+  type: MeasurementKind;
+  // Defining points in natural image pixels
+  points: Point[];
+  // Length, path length, perimeter or diameter, depending on the type
+  pixelLength: number | null;
+  length: number | null;
+  lengthUncertainty: number | null;
+  pixelArea: number | null;
+  area: number | null;
+  areaUncertainty: number | null;
+  // Included angle in degrees, for angle measurements
+  angle: number | null;
+  angleUncertainty: number | null;
+  // Whether the measurement spans much more than the calibration reference
+  extrapolated: boolean;
+  unit: Unit;
+  // Pixels per unit, or null when the image has not been calibrated or is
+  // calibrated for perspective, where the scale varies across the image
+  scale: number | null;
+  // Pixels per unit along the Y axis; the same as scale unless the axes were
+  // calibrated separately
+  scaleY: number | null;
+}
+
+// Build one row per measurement of an image, naming the categories they
+// belong to among the given ones
+export const getMeasurementRows = (
+  image: ExportableImage,
+  categories: MeasurementCategory[] = [],
+): MeasurementRow[] => {
+  const model = createUncertaintyModel(image);
+  const { unit } = model.space;
+  // Real values are left empty for images that were never calibrated
+  const isCalibrated =
+    unit === "px" || !!image.perspective || (image.scale ?? 0) > 0;
+  // A single pixels-per-unit figure only exists without perspective
+  const pixelsPerUnit =
+    unit === "px"
+      ? 1
+      : isCalibrated && !image.perspective
+        ? (image.scale ?? 0) * (UNITS[unit].centimeters ?? 1)
+        : null;
+  const pixelsPerUnitY =
+    pixelsPerUnit !== null && unit !== "px" && image.scaleY
+      ? image.scaleY * (UNITS[unit].centimeters ?? 1)
+      : pixelsPerUnit;
+
+  const rows: MeasurementRow[] = [];
+  const addRow = (
+    type: MeasurementKind,
+    index: number,
+    measurement: MeasurementInfo,
+    points: Point[],
+    values: {
+      pixelLength?: number;
+      length?: UncertainValue;
+      pixelArea?: number;
+      area?: UncertainValue;
+      angle?: UncertainValue;
+    },
+    extent: Point[] = points,
+  ) => {
+    const real = (value: number | undefined) =>
+      value === undefined || !isCalibrated ? null : value;
+    rows.push({
+      image: image.name,
+      id: measurement.id,
+      name: getMeasurementName(type, index, measurement),
+      notes: measurement.notes ?? "",
+      category: findCategory(categories, measurement.category)?.name ?? null,
+      type,
+      points,
+      pixelLength: values.pixelLength ?? null,
+      length: real(values.length?.value),
+      lengthUncertainty: real(values.length?.uncertainty),
+      pixelArea: values.pixelArea ?? null,
+      area: real(values.area?.value),
+      areaUncertainty: real(values.area?.uncertainty),
+      angle: values.angle?.value ?? null,
+      angleUncertainty: values.angle?.uncertainty ?? null,
+      extrapolated: isExtrapolated(model, extent),
+      unit,
+      scale: pixelsPerUnit,
+      scaleY: pixelsPerUnitY,
+    });
+  };
+
+  image.measurementLines?.forEach((line, index) => {
+    addRow("line", index, line, [line.start, line.end], {
+      pixelLength: calculateDistance(line.start, line.end),
+      length: distanceWithUncertainty(model, line.start, line.end),
+    });
+  });
+  image.measurementPaths?.forEach((path, index) => {
+    addRow("path", index, path, path.points, {
+      pixelLength: calculatePathLength(path.points),
+      length: pathLengthWithUncertainty(model, path.points),
+    });
+  });
+  image.measurementPolygons?.forEach((polygon, index) => {
+    const outline = closePolygon(polygon.points);
+    addRow("polygon", index, polygon, polygon.points, {
+      pixelLength: calculatePathLength(outline),
+      length: pathLengthWithUncertainty(model, outline),
+      pixelArea: calculatePolygonArea(polygon.points),
+      area: polygonAreaWithUncertainty(model, polygon.points),
+    });
+  });
+  image.measurementAngles?.forEach((angle, index) => {
+    // Angles don't depend on the reference's size, so they're never flagged
+    addRow(
+      "angle",
+      index,
+      angle,
+      [angle.start, angle.vertex, angle.end],
+      {
+        angle: angleWithUncertainty(
+          model,
+          angle.vertex,
+          angle.start,
+          angle.end,
+        ),
+      },
+      [],
+    );
+  });
+  image.measurementCircles?.forEach((circle, index) => {
+    const measured = circleWithUncertainty(model, circle.center, circle.radius);
+    addRow(
+      "circle",
+      index,
+      circle,
+      [circle.center],
+      {
+        pixelLength: circle.radius * 2,
+        length: measured.diameter,
+        pixelArea: Math.PI * circle.radius * circle.radius,
+        area: measured.area,
+      },
+      getCircleExtent(circle.center, circle.radius),
+    );
+  });
+
+  return rows;
+};
+
+const CSV_HEADER = [
+  "image",
+  "id",
+  "name",
+  "type",
+  "points_px",
+  "length_px",
+  "length",
+  "length_uncertainty",
+  "area_px",
+  "area",
+  "area_uncertainty",
+  "angle_deg",
+  "angle_uncertainty_deg",
+  "extrapolated",
+  "unit",
+  "scale_px_per_unit",
+  "scale_y_px_per_unit",
+  "category",
+  "notes",
+];
+
+// Quote a CSV field when it contains a separator, quote or line break
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Quote text typed by the user, such as names and notes, and keep
+// spreadsheets from running text that looks like a formula by prefixing an
+// apostrophe
+const escapeCsvText = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value)
+    ? `"'${value.replace(/"/g, '""')}"`
+    : escapeCsvField(value);
+
+const formatNumber = (value: number | null): string =>
+  value === null ? "" : String(Number(value.toFixed(4)));
+
+const formatPoints = (points: Point[]): string =>
+  points
+    .map((point) => `${formatNumber(point.x)} ${formatNumber(point.y)}`)
+    .join("; ");
+
+export const measurementsToCsv = (
+  images: ExportableImage[],
+  categories: MeasurementCategory[] = [],
+): string => {
+  const lines = [CSV_HEADER.join(",")];
+  images
+    .flatMap((image) => getMeasurementRows(image, categories))
+    .forEach((row) => {
+      const fields = [
+        escapeCsvText(row.image),
+        escapeCsvText(row.id),
+        escapeCsvText(row.name),
+        row.type,
+        formatPoints(row.points),
+        formatNumber(row.pixelLength),
+        formatNumber(row.length),
+        formatNumber(row.lengthUncertainty),
+        formatNumber(row.pixelArea),
+        formatNumber(row.area),
+        formatNumber(row.areaUncertainty),
+        formatNumber(row.angle),
+        formatNumber(row.angleUncertainty),
+        row.extrapolated ? "yes" : "",
+        row.unit,
+        formatNumber(row.scale),
+        formatNumber(row.scaleY),
+        escapeCsvText(row.category ?? ""),
+        escapeCsvText(row.notes),
+      ];
+      lines.push(fields.join(","));
+    });
+  // CRLF line endings as expected by spreadsheet applications
+  return lines.join("\r\n") + "\r\n";
+};
+
+export const measurementsToJson = (
+  images: ExportableImage[],
+  categories: MeasurementCategory[] = [],
+): string => {
+  const exported = images.map((image) => ({
+    id: image.id,
+    name: image.name,
+    measurements: getMeasurementRows(image, categories).map((row) => {
+      const measurement: Partial<MeasurementRow> = { ...row };
+      delete measurement.image;
+      return measurement;
+    }),
+  }));
+  return JSON.stringify(exported, null, 2);
+};
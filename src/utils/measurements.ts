@@ -0,0 +1,80 @@
+// Saved measurements and the images that carry them: their types, identity
+// and naming, shared by the viewer, the measurement list, the exporters and
+// the CLI.
+
+import type { LinkableImage } from "./calibrationGroups";
+import type { Angle, Circle, Line, Polygon, Polyline } from "./geometry";
+import type { Unit } from "./units";
+
+// Identity and user annotations carried by every saved measurement
+export interface MeasurementInfo {
+  id: string;
+  name?: string;
+  notes?: string;
+  // Id of the user-defined category the measurement belongs to, if any
+  category?: string;
+}
+
+export type Measurement<T> = T & MeasurementInfo;
+
+// An image with its calibration and measurements, as the app keeps it and
+// project files store it, apart from the image contents
+export interface MeasuredImage extends LinkableImage {
+  name: string;
+  unit?: Unit;
+  calibrationLine?: Line;
+  calibrationLineY?: Line;
+  measurementLines?: Measurement<Line>[];
+  measurementPaths?: Measurement<Polyline>[];
+  measurementPolygons?: Measurement<Polygon>[];
+  measurementAngles?: Measurement<Angle>[];
+  measurementCircles?: Measurement<Circle>[];
+}
+
+export type MeasurementKind = "line" | "path" | "polygon" | "angle" | "circle";
+
+export const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  line: "Line",
+  path: "Path",
+  polygon: "Area",
+  angle: "Angle",
+  circle: "Circle",
+};
+
+// Image fields holding each kind of measurement, in display order
+export const MEASUREMENT_LIST_KEYS = {
+  line: "measurementLines",
+  path: "measurementPaths",
+  polygon: "measurementPolygons",
+  angle: "measurementAngles",
+  circle: "measurementCircles",
+} as const satisfies Record<MeasurementKind, string>;
+
+export const MEASUREMENT_KINDS = Object.keys(
+  MEASUREMENT_LIST_KEYS,
+) as MeasurementKind[];
+
+export const createMeasurementId = (): string =>
+  `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Name shown for a measurement that hasn't been given one
+export const getMeasurementName = (
+  kind: MeasurementKind,
+  index: number,
+  measurement: { name?: string },
+): string =>
+  measurement.name?.trim() || `${MEASUREMENT_LABELS[kind]} ${index + 1}`;
+
+// Give every measurement of an image a stable id; data saved before
+// measurements had ids is upgraded this way when loaded or imported
+export const withMeasurementIds = <T extends object>(image: T): T => {
+  const result = { ...image } as Record<string, unknown>;
+  Object.values(MEASUREMENT_LIST_KEYS).forEach((key) => {
+    const list = result[key];
+    if (!Array.isArray(list) || list.every((item) => item.id)) return;
+    result[key] = list.map((item) =>
+      item.id ? item : { ...item, id: createMeasurementId() },
+    );
+  });
+  return result as T;
+};
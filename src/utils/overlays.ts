@@ -0,0 +1,92 @@
+// Reference overlays drawn over a calibrated image: a grid, rulers and a
+// scale bar, all in the image's unit. They rely on every part of the image
+// having the same number of pixels per unit, so images calibrated for
+// perspective don't get them.
+
+import type { Point } from "./geometry";
+import {
+  createMeasurementSpace,
+  measureDistance,
+  type CalibratedImage,
+} from "./measure";
+
+// Image pixels per unit along each axis
+export interface UnitScale {
+  x: number;
+  y: number;
+}
+
+export interface ScaleBar {
+  // Bottom left corner of the bar, in image pixels
+  origin: Point;
+  // Length of the bar in image pixels, and in the unit
+  width: number;
+  value: number;
+}
+
+// Share of the image width a scale bar spans at most
+const SCALE_BAR_FRACTION = 1 / 5;
+
+export const getUnitScale = (image: CalibratedImage): UnitScale | null => {
+  const space = createMeasurementSpace(image);
+  if (image.perspective && space.unit !== "px") return null;
+  const origin = { x: 0, y: 0 };
+  return {
+    x: 1 / measureDistance(space, origin, { x: 1, y: 0 }),
+    y: 1 / measureDistance(space, origin, { x: 0, y: 1 }),
+  };
+};
+
+// Smallest round step (1, 2 or 5 times a power of ten) of at least the given
+// size
+export const getNiceStep = (minimum: number): number => {
+  const power = Math.pow(10, Math.floor(Math.log10(minimum)));
+  const step = [1, 2, 5, 10].find((factor) => factor * power >= minimum) ?? 10;
+  return step * power;
+};
+
+// Round a length in the given unit down to a 1, 2 or 5 step for the scale bar
+export const getScaleBarLength = (value: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [5, 2, 1].find((s) => s * magnitude <= value) ?? 1;
+  return Number((step * magnitude).toPrecision(1));
+};
+
+// Number of minor divisions between two labelled ticks of the given step
+export const getMinorDivisions = (step: number): number =>
+  Math.round(step / Math.pow(10, Math.floor(Math.log10(step)))) === 2 ? 4 : 5;
+
+// Multiples of the step from start to end
+export const getTicks = (
+  start: number,
+  end: number,
+  step: number,
+): number[] => {
+  const ticks: number[] = [];
+  for (let i = Math.ceil(start / step); i * step <= end; i++) {
+    ticks.push(i * step);
+  }
+  return ticks;
+};
+
+// A tick value with as many decimals as its step needs
+export const formatTick = (value: number, step: number): string =>
+  value.toFixed(Math.max(0, -Math.floor(Math.log10(step) + 1e-9)));
+
+// A scale bar of a round length, with its bottom left corner at the given
+// point or near the image's
+export const getScaleBar = (
+  unitScale: UnitScale,
+  imageWidth: number,
+  imageHeight: number,
+  position: Point | null,
+): ScaleBar => {
+  const value = getScaleBarLength(
+    (imageWidth * SCALE_BAR_FRACTION) / unitScale.x,
+  );
+  return {
+    origin: position ?? { x: imageWidth * 0.05, y: imageHeight * 0.95 },
+    width: value * unitScale.x,
+    value,
+  };
+};
@@ -0,0 +1,76 @@
+// Reference objects of a known size for one-click calibration: a built-in
+// library of standard objects plus the user's own references, which are kept
+// in localStorage and travel with project files.
+
+import { isUnit, type Unit } from "./units";
+
+export interface ReferencePreset {
+  id: string;
+  name: string;
+  // Known length in the preset's own unit, as it is usually quoted
+  length: number;
+  unit: Unit;
+}
+
+export const BUILT_IN_PRESETS: ReferencePreset[] = [
+  { id: "card-width", name: "Credit card width", length: 85.6, unit: "mm" },
+  { id: "card-height", name: "Credit card height", length: 53.98, unit: "mm" },
+  { id: "a4-short", name: "A4 short side", length: 210, unit: "mm" },
+  { id: "a4-long", name: "A4 long side", length: 297, unit: "mm" },
+  { id: "letter-short", name: "US Letter short side", length: 8.5, unit: "in" },
+  { id: "letter-long", name: "US Letter long side", length: 11, unit: "in" },
+  { id: "us-quarter", name: "US quarter diameter", length: 24.26, unit: "mm" },
+  { id: "us-penny", name: "US penny diameter", length: 19.05, unit: "mm" },
+  { id: "euro-1", name: "1 euro coin diameter", length: 23.25, unit: "mm" },
+  { id: "euro-2", name: "2 euro coin diameter", length: 25.75, unit: "mm" },
+  { id: "uk-pound", name: "UK £1 coin diameter", length: 23.43, unit: "mm" },
+];
+
+const STORAGE_KEY_PRESETS = "px2cm-reference-presets";
+
+export const createPresetId = (): string =>
+  `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isReferencePreset = (value: unknown): value is ReferencePreset => {
+  if (typeof value !== "object" || value === null) return false;
+  const preset = value as Record<string, unknown>;
+  return (
+    typeof preset.id === "string" &&
+    typeof preset.name === "string" &&
+    typeof preset.length === "number" &&
+    Number.isFinite(preset.length) &&
+    preset.length > 0 &&
+    isUnit(preset.unit) &&
+    preset.unit !== "px"
+  );
+};
+
+// Load the user's own presets, dropping any that are malformed
+export const loadCustomPresets = (): ReferencePreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_PRESETS);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isReferencePreset) : [];
+  } catch (error) {
+    console.error("Discarding corrupted reference presets:", error);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: ReferencePreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY_PRESETS, JSON.stringify(presets));
+  } catch (error) {
+    console.error("Failed to save reference presets:", error);
+  }
+};
+
+// Add presets from elsewhere, such as a project file, skipping ones that are
+// already known by id
+export const mergePresets = (
+  existing: ReferencePreset[],
+  incoming: ReferencePreset[],
+): ReferencePreset[] => {
+  const known = new Set(existing.map((preset) => preset.id));
+  return [...existing, ...incoming.filter((preset) => !known.has(preset.id))];
+};
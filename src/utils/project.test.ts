@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  ProjectFileError,
+  getMeasuredImages,
+  parseProjectFile,
+} from "./project";
+
+const DATA_URL = "data:image/png;base64,AAAA";
+
+const project = (images: unknown[], extra: object = {}) =>
+  JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: "2026-01-01T00:00:00.000Z",
+    images,
+    ...extra,
+  });
+
+const source = {
+  id: "a",
+  name: "first.png",
+  dataUrl: DATA_URL,
+  unit: "cm",
+  scale: 50,
+  calibrationLine: { start: { x: 0, y: 0 }, end: { x: 500, y: 0 } },
+  calibrationLength: 10,
+  measurementLines: [
+    { start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+    { id: "l2", start: { x: 0, y: 0 }, end: { x: 0, y: 100 } },
+  ],
+};
+
+describe("parseProjectFile", () => {
+  it("reads a valid project", () => {
+    const parsed = parseProjectFile(project([source]));
+    expect(parsed.images).toHaveLength(1);
+    expect(parsed.images[0].name).toBe("first.png");
+    expect(parsed.presets).toEqual([]);
+    expect(parsed.categories).toEqual([]);
+  });
+
+  it("reads measurement categories", () => {
+    const category = {
+      id: "defects",
+      name: "Defects",
+      color: "#ffaa00",
+      lineStyle: "dotted",
+      visible: false,
+      locked: true,
+    };
+    const parsed = parseProjectFile(
+      project([source], { categories: [category] }),
+    );
+    expect(parsed.categories).toEqual([category]);
+  });
+
+  it.each([
+    ["text that isn't JSON", "{", /not valid JSON/],
+    [
+      "another kind of file",
+      JSON.stringify({ format: "other" }),
+      /not a px2cm/,
+    ],
+    [
+      "a newer format",
+      JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION + 1 }),
+      /newer version/,
+    ],
+    [
+      "a missing image list",
+      JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION }),
+      /no image list/,
+    ],
+    [
+      "malformed categories",
+      project([source], { categories: [{ id: "a", name: "A" }] }),
+      /invalid measurement categories/,
+    ],
+    [
+      "an unknown unit",
+      project([{ ...source, unit: "furlong" }]),
+      /unknown unit "furlong"/,
+    ],
+    [
+      "an inherited property as unit",
+      project([{ ...source, unit: "toString" }]),
+      /unknown unit "toString"/,
+    ],
+    [
+      "a calibration length that isn't a number",
+      project([{ ...source, calibrationLength: "abc" }]),
+      /invalid calibration length/,
+    ],
+    [
+      "a vertical calibration length of zero",
+      project([{ ...source, calibrationLengthY: 0 }]),
+      /invalid calibration length/,
+    ],
+    [
+      "a malformed measurement",
+      project([{ ...source, measurementLines: [{ start: { x: 0 } }] }]),
+      /invalid measurementLines/,
+    ],
+    [
+      "a measurement name that isn't text",
+      project([
+        {
+          ...source,
+          measurementLines: [{ ...source.measurementLines[0], name: 5 }],
+        },
+      ]),
+      /measurementLines with an invalid id, name, notes or category/,
+    ],
+    [
+      "a circle with a negative radius",
+      project([
+        {
+          ...source,
+          measurementCircles: [{ center: { x: 0, y: 0 }, radius: -5 }],
+        },
+      ]),
+      /invalid measurementCircles/,
+    ],
+    [
+      "a calibration shared from a missing image",
+      project([{ ...source, calibrationSourceId: "missing" }]),
+      /calibration of an image that isn't in the project/,
+    ],
+    [
+      "an image without its data",
+      project([{ ...source, dataUrl: undefined }]),
+      /embedded image data/,
+    ],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseProjectFile(text)).toThrow(ProjectFileError);
+    expect(() => parseProjectFile(text)).toThrow(message);
+  });
+});
+
+describe("getMeasuredImages", () => {
+  const images = getMeasuredImages(
+    parseProjectFile(
+      project([
+        source,
+        {
+          id: "b",
+          name: "second.png",
+          dataUrl: DATA_URL,
+          unit: "mm",
+          calibrationSourceId: "a",
+        },
+      ]),
+    ),
+  );
+
+  it("gives every measurement an id, keeping existing ones", () => {
+    const [first, second] = images[0].measurementLines!;
+    expect(first.id).toEqual(expect.any(String));
+    expect(second.id).toBe("l2");
+  });
+
+  it("fills in shared calibrations but keeps each image's unit", () => {
+    expect(images[1]).toMatchObject({
+      scale: 50,
+      calibrationLength: 10,
+      unit: "mm",
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { blobToDataUrl } from "./storage";
+import { isUnit } from "./units";
+import { isReferencePreset, type ReferencePreset } from "./presets";
+import { isMeasurementCategory, type MeasurementCategory } from "./categories";
+import { withMeasurementIds, type MeasuredImage } from "./measurements";
+import { resolveCalibration } from "./calibrationGroups";
+
+// Portable project files: every image embedded as a data URL together with
+// all of its calibration and measurement data, the user's own reference
+// presets and measurement categories, plus a format version.
+
+export const PROJECT_FORMAT = "px2cm-project";
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = ".px2cm.json";
+
+// An image as stored in a project file: a measured image with its contents
+// embedded. Any annotation fields beyond the ones validated below are carried
+// along untouched.
+export interface ProjectImage extends MeasuredImage {
+  dataUrl: string;
+  [key: string]: unknown;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: string;
+  images: ProjectImage[];
+  // User-defined calibration references; absent from older project files
+  presets: ReferencePreset[];
+  // Measurement categories; absent from older project files
+  categories: MeasurementCategory[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isPoint = (value: unknown): boolean =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isLine = (value: unknown): boolean =>
+  isRecord(value) && isPoint(value.start) && isPoint(value.end);
+
+const isPointList = (value: unknown): boolean =>
+  isRecord(value) && Array.isArray(value.points) && value.points.every(isPoint);
+
+const isAngle = (value: unknown): boolean =>
+  isRecord(value) &&
+  isPoint(value.vertex) &&
+  isPoint(value.start) &&
+  isPoint(value.end);
+
+const isNonNegative = (value: unknown): boolean =>
+  isFiniteNumber(value) && value >= 0;
+
+const isCircle = (value: unknown): boolean =>
+  isRecord(value) && isPoint(value.center) && isNonNegative(value.radius);
+
+const isPerspective = (value: unknown): boolean =>
+  isRecord(value) &&
+  Array.isArray(value.corners) &&
+  value.corners.length === 4 &&
+  value.corners.every(isPoint) &&
+  isFiniteNumber(value.width) &&
+  value.width > 0 &&
+  isFiniteNumber(value.height) &&
+  value.height > 0 &&
+  (value.tolerance === undefined || isNonNegative(value.tolerance)) &&
+  Array.isArray(value.homography) &&
+  value.homography.length === 9 &&
+  value.homography.every(isFiniteNumber);
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === "string";
+
+// The id, name, notes and category any measurement may carry; ids are
+// optional as older files have none
+const isMeasurementInfo = (value: unknown): boolean =>
+  isRecord(value) &&
+  isOptionalString(value.id) &&
+  isOptionalString(value.name) &&
+  isOptionalString(value.notes) &&
+  isOptionalString(value.category);
+
+// Validators for the known measurement lists of an image
+const MEASUREMENT_LISTS: Record<string, (value: unknown) => boolean> = {
+  measurementLines: isLine,
+  measurementPaths: isPointList,
+  measurementPolygons: isPointList,
+  measurementAngles: isAngle,
+  measurementCircles: isCircle,
+};
+
+// Build a project file from images whose contents are available at `dataUrl`
+// (data URLs or object URLs)
+export const createProjectFile = async (
+  images: Pick<ProjectImage, "id" | "name" | "dataUrl">[],
+  presets: ReferencePreset[] = [],
+  categories: MeasurementCategory[] = [],
+): Promise<ProjectFile> => {
+  const embeddedImages = await Promise.all(
+    images.map(async (image) => {
+      const response = await fetch(image.dataUrl);
+      return { ...image, dataUrl: await blobToDataUrl(await response.blob()) };
+    }),
+  );
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: new Date().toISOString(),
+    images: embeddedImages,
+    presets,
+    categories,
+  };
+};
+
+const validateImage = (value: unknown, index: number): ProjectImage => {
+  const label = `Image ${index + 1}`;
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`${label} is not a valid image entry.`);
+  }
+  if (typeof value.id !== "string" || value.id === "") {
+    throw new ProjectFileError(`${label} has no id.`);
+  }
+  if (typeof value.name !== "string") {
+    throw new ProjectFileError(`${label} has no name.`);
+  }
+  if (
+    typeof value.dataUrl !== "string" ||
+    !value.dataUrl.startsWith("data:image/")
+  ) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") does not contain embedded image data.`,
+    );
+  }
+  if (
+    value.scale !== undefined &&
+    !(isFiniteNumber(value.scale) && value.scale > 0)
+  ) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid scale.`,
+    );
+  }
+  if (
+    value.scaleY !== undefined &&
+    !(isFiniteNumber(value.scaleY) && value.scaleY > 0)
+  ) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid vertical scale.`,
+    );
+  }
+  if (value.scaleSource !== undefined && value.scaleSource !== "metadata") {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an unknown scale source.`,
+    );
+  }
+  if (value.unit !== undefined && !isUnit(value.unit)) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") uses an unknown unit "${String(value.unit)}".`,
+    );
+  }
+  if (value.calibrationLine !== undefined && !isLine(value.calibrationLine)) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid calibration line.`,
+    );
+  }
+  if (value.calibrationLineY !== undefined && !isLine(value.calibrationLineY)) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid vertical calibration line.`,
+    );
+  }
+  const calibrationLengths = [
+    value.calibrationLength,
+    value.calibrationLengthY,
+  ];
+  if (
+    calibrationLengths.some(
+      (length) =>
+        length !== undefined && !(isFiniteNumber(length) && length > 0),
+    )
+  ) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid calibration length.`,
+    );
+  }
+  const uncertaintySettings = [
+    value.calibrationTolerance,
+    value.calibrationToleranceY,
+    value.placementPrecision,
+  ];
+  if (
+    uncertaintySettings.some(
+      (setting) => setting !== undefined && !isNonNegative(setting),
+    )
+  ) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid tolerance or precision.`,
+    );
+  }
+  if (value.perspective !== undefined && !isPerspective(value.perspective)) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid perspective calibration.`,
+    );
+  }
+  if (
+    value.calibrationSourceId !== undefined &&
+    typeof value.calibrationSourceId !== "string"
+  ) {
+    throw new ProjectFileError(
+      `${label} ("${value.name}") has an invalid shared calibration.`,
+    );
+  }
+  for (const [key, isValid] of Object.entries(MEASUREMENT_LISTS)) {
+    const list = value[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || !list.every(isValid)) {
+      throw new ProjectFileError(
+        `${label} ("${value.name}") has invalid ${key}.`,
+      );
+    }
+    if (!list.every(isMeasurementInfo)) {
+      throw new ProjectFileError(
+        `${label} ("${value.name}") has a measurement in ${key} with an invalid id, name, notes or category.`,
+      );
+    }
+  }
+
+  // Every field of a measured image has been checked above
+  return value as ProjectImage;
+};
+
+// Parse and validate the text of a project file
+export const parseProjectFile = (text: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("The file is not valid JSON or is corrupted.");
+  }
+
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("The file is not a px2cm project.");
+  }
+  if (!isFiniteNumber(data.version) || data.version < 1) {
+    throw new ProjectFileError("The project file has no valid format version.");
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `The project was saved by a newer version of px2cm (format ${data.version}); this version supports up to format ${PROJECT_VERSION}.`,
+    );
+  }
+  if (!Array.isArray(data.images)) {
+    throw new ProjectFileError("The project file contains no image list.");
+  }
+  if (
+    data.presets !== undefined &&
+    !(Array.isArray(data.presets) && data.presets.every(isReferencePreset))
+  ) {
+    throw new ProjectFileError(
+      "The project file has invalid reference presets.",
+    );
+  }
+  if (
+    data.categories !== undefined &&
+    !(
+      Array.isArray(data.categories) &&
+      data.categories.every(isMeasurementCategory)
+    )
+  ) {
+    throw new ProjectFileError(
+      "The project file has invalid measurement categories.",
+    );
+  }
+
+  const images = data.images.map(validateImage);
+  // Images share a calibration by id, so the image it comes from must be in
+  // the file too
+  images.forEach((image, index) => {
+    const sourceId = image.calibrationSourceId;
+    if (
+      sourceId !== undefined &&
+      !images.some((other) => other !== image && other.id === sourceId)
+    ) {
+      throw new ProjectFileError(
+        `Image ${index + 1} ("${image.name}") shares the calibration of an image that isn't in the project.`,
+      );
+    }
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    images,
+    presets: data.presets ?? [],
+    categories: data.categories ?? [],
+  };
+};
+
+// The images of a validated project ready to be measured: every measurement
+// has an id and images sharing a calibration have it filled in
+export const getMeasuredImages = (project: ProjectFile): MeasuredImage[] => {
+  const images = project.images.map((image) => withMeasurementIds(image));
+  return images.map((image) => resolveCalibration(image, images));
+};
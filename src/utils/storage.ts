@@ -0,0 +1,131 @@
+// IndexedDB persistence for images and their measurements.
+// Image files are stored as blobs keyed by image id, while the measurement
+// metadata for all images is stored separately as a single small record.
+
+const DB_NAME = "px2cm";
+const DB_VERSION = 1;
+const BLOB_STORE = "imageBlobs";
+const META_STORE = "metadata";
+const IMAGES_KEY = "images";
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Load the metadata of all images and the blob of each one
+export const loadImages = async <T extends { id: string }>(): Promise<{
+  images: T[];
+  blobs: Map<string, Blob>;
+}> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, BLOB_STORE], "readonly");
+  const images =
+    ((await requestToPromise(
+      transaction.objectStore(META_STORE).get(IMAGES_KEY),
+    )) as T[] | undefined) ?? [];
+
+  const blobs = new Map<string, Blob>();
+  const blobStore = transaction.objectStore(BLOB_STORE);
+  for (const image of images) {
+    const blob = (await requestToPromise(blobStore.get(image.id))) as
+      Blob | undefined;
+    if (blob) blobs.set(image.id, blob);
+  }
+  return { images, blobs };
+};
+
+// Replace the stored metadata of all images
+export const saveImageMetadata = async <T extends { id: string }>(
+  images: T[],
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, "readwrite");
+  transaction.objectStore(META_STORE).put(images, IMAGES_KEY);
+  await transactionDone(transaction);
+};
+
+export const saveImageBlob = async (id: string, blob: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BLOB_STORE, "readwrite");
+  transaction.objectStore(BLOB_STORE).put(blob, id);
+  await transactionDone(transaction);
+};
+
+export const deleteImageBlob = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BLOB_STORE, "readwrite");
+  transaction.objectStore(BLOB_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// Convert a data URL (as saved by older versions in localStorage) to a blob
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+// Convert a blob back into a self-contained data URL
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Report how much storage the app uses and how much the browser allows
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || quota === undefined) return null;
+  return { usage, quota };
+};
+
+// Ask the browser not to evict our data under storage pressure
+export const requestPersistentStorage = async (): Promise<void> => {
+  if (navigator.storage?.persist) {
+    await navigator.storage.persist();
+  }
+};
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "QuotaExceededError";
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createVertexShape, getSnapOrigin, isShapeComplete } from "./tools";
+
+const a = { x: 0, y: 0 };
+const b = { x: 10, y: 0 };
+const c = { x: 0, y: 10 };
+
+describe("createVertexShape", () => {
+  it("needs two points for a path and three for an area", () => {
+    expect(createVertexShape("polyline", [a])).toBeNull();
+    expect(createVertexShape("polyline", [a, b])).toEqual({
+      kind: "path",
+      shape: { points: [a, b] },
+    });
+    expect(createVertexShape("polygon", [a, b])).toBeNull();
+    expect(createVertexShape("polygon", [a, b, c])).toEqual({
+      kind: "polygon",
+      shape: { points: [a, b, c] },
+    });
+  });
+
+  it("takes the first point of an angle as its vertex", () => {
+    expect(createVertexShape("angle", [a, b, c])).toEqual({
+      kind: "angle",
+      shape: { vertex: a, start: b, end: c },
+    });
+  });
+
+  it("fits a circle through three points, unless they are in line", () => {
+    expect(createVertexShape("circle3", [b, c, { x: -10, y: 0 }])).toEqual({
+      kind: "circle",
+      shape: { center: { x: 0, y: 0 }, radius: 10 },
+    });
+    expect(createVertexShape("circle3", [a, b, { x: 20, y: 0 }])).toBeNull();
+  });
+
+  it("makes nothing with the tools that drag out their shape", () => {
+    expect(createVertexShape("line", [a, b])).toBeNull();
+    expect(createVertexShape("circle", [a, b])).toBeNull();
+  });
+});
+
+describe("getSnapOrigin", () => {
+  it("turns angle arms around the vertex and goes on from the last vertex otherwise", () => {
+    expect(getSnapOrigin("angle", [a, b])).toBe(a);
+    expect(getSnapOrigin("polyline", [a, b])).toBe(b);
+  });
+});
+
+describe("isShapeComplete", () => {
+  it("completes angles and three-point circles at three points", () => {
+    expect(isShapeComplete("angle", [a, b, c])).toBe(true);
+    expect(isShapeComplete("circle3", [a, b])).toBe(false);
+    expect(isShapeComplete("polygon", [a, b, c])).toBe(false);
+  });
+});
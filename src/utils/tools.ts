@@ -0,0 +1,73 @@
+// The viewer's drawing tools and the shapes they make of the points placed
+// with them.
+
+import {
+  circleThroughPoints,
+  type Angle,
+  type Circle,
+  type Point,
+  type Polygon,
+  type Polyline,
+} from "./geometry";
+
+export type Tool =
+  "line" | "polyline" | "polygon" | "angle" | "circle" | "circle3";
+
+export const TOOLS: { id: Tool; label: string }[] = [
+  { id: "line", label: "Line" },
+  { id: "polyline", label: "Path" },
+  { id: "polygon", label: "Area" },
+  { id: "angle", label: "Angle" },
+  { id: "circle", label: "Circle" },
+  { id: "circle3", label: "3-Point Circle" },
+];
+
+// A shape made with a vertex tool, by the kind of measurement it is saved as
+export type VertexShape =
+  | { kind: "path"; shape: Polyline }
+  | { kind: "polygon"; shape: Polygon }
+  | { kind: "angle"; shape: Angle }
+  | { kind: "circle"; shape: Circle };
+
+// Tools that place their points one press at a time; the others drag out a
+// line or a circle from its center
+export const VERTEX_TOOLS: Tool[] = ["polyline", "polygon", "angle", "circle3"];
+
+// The point the next vertex keeps to 45° steps around: angle arms turn
+// around the angle's vertex, other shapes go on from their last vertex
+export const getSnapOrigin = (
+  tool: Tool,
+  points: Point[],
+): Point | undefined =>
+  tool === "angle" ? points[0] : points[points.length - 1];
+
+// Angles and three-point circles are complete once three points are placed;
+// paths and areas go on until they are finished
+export const isShapeComplete = (tool: Tool, points: Point[]): boolean =>
+  (tool === "angle" || tool === "circle3") && points.length === 3;
+
+// The shape a vertex tool makes of the points placed, or null when they
+// don't make one
+export const createVertexShape = (
+  tool: Tool,
+  points: Point[],
+): VertexShape | null => {
+  switch (tool) {
+    case "polyline":
+      return points.length >= 2 ? { kind: "path", shape: { points } } : null;
+    case "polygon":
+      return points.length >= 3 ? { kind: "polygon", shape: { points } } : null;
+    case "angle": {
+      if (points.length !== 3) return null;
+      const [vertex, start, end] = points;
+      return { kind: "angle", shape: { vertex, start, end } };
+    }
+    case "circle3": {
+      if (points.length !== 3) return null;
+      const circle = circleThroughPoints(points[0], points[1], points[2]);
+      return circle ? { kind: "circle", shape: circle } : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,299 @@
+// Uncertainty of measurements. Every point placed by hand can be off by the
+// placement precision, and the calibration carries both the error of its own
+// placed points and the tolerance of the reference's known size. These are
+// propagated to each measurement by nudging every input by its uncertainty
+// and combining the effects in quadrature.
+
+import { calculateDistance, type Point } from "./geometry";
+import {
+  createMeasurementSpace,
+  createPerspectiveCalibration,
+  measureAngle,
+  measureCircle,
+  measureDistance,
+  measurePathLength,
+  measurePolygonArea,
+  type CalibratedImage,
+  type CircleMeasurement,
+  type MeasurementSpace,
+} from "./measure";
+
+// How far, in image pixels, a placed point may be from where it was meant to be
+export const DEFAULT_PLACEMENT_PRECISION = 1;
+
+// Measurements this many times longer than the calibration reference
+// magnify its error enough to be flagged
+export const EXTRAPOLATION_WARNING_RATIO = 5;
+
+interface CalibrationLine {
+  start: Point;
+  end: Point;
+}
+
+// The parts of an image that decide how uncertain its measurements are
+export interface UncertainImage extends CalibratedImage {
+  // Placement precision in pixels
+  placementPrecision?: number;
+  calibrationLine?: CalibrationLine;
+  // Known lengths and their tolerances, in centimeters
+  calibrationLength?: number;
+  calibrationTolerance?: number;
+  calibrationLineY?: CalibrationLine;
+  calibrationLengthY?: number;
+  calibrationToleranceY?: number;
+}
+
+export interface UncertaintyModel {
+  space: MeasurementSpace;
+  precision: number;
+  // Spaces with one calibration input nudged up and down by its uncertainty
+  variations: [MeasurementSpace, MeasurementSpace][];
+  // Pixel length of the calibration reference, or null without one
+  referencePixels: number | null;
+}
+
+export interface UncertainValue {
+  value: number;
+  // Standard uncertainty, in the same unit as the value
+  uncertainty: number;
+}
+
+// Relative uncertainty of a scale taken from a reference of a known length
+const relativeScaleUncertainty = (
+  pixels: number,
+  knownLength: number,
+  precision: number,
+  tolerance: number,
+) => Math.hypot((Math.SQRT2 * precision) / pixels, tolerance / knownLength);
+
+export const createUncertaintyModel = (
+  image: UncertainImage,
+): UncertaintyModel => {
+  const space = createMeasurementSpace(image);
+  const precision = image.placementPrecision ?? DEFAULT_PLACEMENT_PRECISION;
+  const variations: [MeasurementSpace, MeasurementSpace][] = [];
+  const vary = (nudged: (sign: 1 | -1) => CalibratedImage | null) => {
+    const up = nudged(1);
+    const down = nudged(-1);
+    if (up && down) {
+      variations.push([
+        createMeasurementSpace(up),
+        createMeasurementSpace(down),
+      ]);
+    }
+  };
+
+  // Pixel measurements don't depend on the calibration
+  if (space.unit === "px") {
+    return { space, precision, variations, referencePixels: null };
+  }
+
+  const { perspective } = image;
+  if (perspective) {
+    const { corners, width, height } = perspective;
+    const tolerance = perspective.tolerance ?? 0;
+    const nudgeCorner = (index: number, axis: "x" | "y", sign: number) =>
+      corners.map((corner, i) =>
+        i === index
+          ? { ...corner, [axis]: corner[axis] + sign * precision }
+          : corner,
+      );
+    const withPerspective = (
+      nudgedCorners: Point[],
+      nudgedWidth: number,
+      nudgedHeight: number,
+    ) => {
+      const nudged = createPerspectiveCalibration(
+        nudgedCorners,
+        nudgedWidth,
+        nudgedHeight,
+      );
+      return nudged ? { ...image, perspective: nudged } : null;
+    };
+
+    corners.forEach((_, index) => {
+      (["x", "y"] as const).forEach((axis) =>
+        vary((sign) =>
+          withPerspective(nudgeCorner(index, axis, sign), width, height),
+        ),
+      );
+    });
+    if (tolerance > 0) {
+      vary((sign) =>
+        withPerspective(corners, width + sign * tolerance, height),
+      );
+      vary((sign) =>
+        withPerspective(corners, width, height + sign * tolerance),
+      );
+    }
+
+    const sides = corners.map((corner, i) =>
+      calculateDistance(corner, corners[(i + 1) % corners.length]),
+    );
+    return {
+      space,
+      precision,
+      variations,
+      referencePixels: Math.max(...sides),
+    };
+  }
+
+  // A scale stored as pixels per cm was measured over scale × length pixels
+  const references: number[] = [];
+  const scale = image.scale;
+  if (scale && image.calibrationLine) {
+    const knownLength =
+      image.calibrationLength ??
+      calculateDistance(
+        image.calibrationLine.start,
+        image.calibrationLine.end,
+      ) / scale;
+    const pixels = scale * knownLength;
+    if (pixels > 0) {
+      const sigma =
+        scale *
+        relativeScaleUncertainty(
+          pixels,
+          knownLength,
+          precision,
+          image.calibrationTolerance ?? 0,
+        );
+      // Without a separate Y scale this nudges both axes together
+      vary((sign) => ({ ...image, scale: scale + sign * sigma }));
+      references.push(pixels);
+    }
+  }
+  const { scaleY, calibrationLengthY } = image;
+  if (scaleY && image.calibrationLineY && calibrationLengthY) {
+    const pixels = scaleY * calibrationLengthY;
+    if (pixels > 0) {
+      const sigma =
+        scaleY *
+        relativeScaleUncertainty(
+          pixels,
+          calibrationLengthY,
+          precision,
+          image.calibrationToleranceY ?? 0,
+        );
+      vary((sign) => ({ ...image, scaleY: scaleY + sign * sigma }));
+      references.push(pixels);
+    }
+  }
+
+  return {
+    space,
+    precision,
+    variations,
+    referencePixels: references.length > 0 ? Math.max(...references) : null,
+  };
+};
+
+// Measure a shape given by its placed points, along with the uncertainty
+// propagated from the placement precision and the calibration
+export const measureWithUncertainty = (
+  model: UncertaintyModel,
+  points: Point[],
+  measure: (space: MeasurementSpace, points: Point[]) => number,
+): UncertainValue => {
+  const { space, precision } = model;
+  const value = measure(space, points);
+  let variance = 0;
+  const addEffect = (up: number, down: number) => {
+    variance += ((up - down) / 2) ** 2;
+  };
+
+  if (precision > 0) {
+    points.forEach((point, index) => {
+      (["x", "y"] as const).forEach((axis) => {
+        const nudge = (sign: number) =>
+          measure(
+            space,
+            points.map((p, i) =>
+              i === index
+                ? { ...point, [axis]: point[axis] + sign * precision }
+                : p,
+            ),
+          );
+        addEffect(nudge(1), nudge(-1));
+      });
+    });
+  }
+  model.variations.forEach(([up, down]) => {
+    addEffect(measure(up, points), measure(down, points));
+  });
+
+  return { value, uncertainty: Math.sqrt(variance) };
+};
+
+// Whether a shape spans much more than the calibration reference, which
+// magnifies the reference's error
+export const isExtrapolated = (
+  model: UncertaintyModel,
+  points: Point[],
+): boolean => {
+  if (model.referencePixels === null || points.length === 0) return false;
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const extent = Math.hypot(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys),
+  );
+  return extent > model.referencePixels * EXTRAPOLATION_WARNING_RATIO;
+};
+
+export const distanceWithUncertainty = (
+  model: UncertaintyModel,
+  start: Point,
+  end: Point,
+): UncertainValue =>
+  measureWithUncertainty(model, [start, end], (space, [a, b]) =>
+    measureDistance(space, a, b),
+  );
+
+export const pathLengthWithUncertainty = (
+  model: UncertaintyModel,
+  points: Point[],
+): UncertainValue => measureWithUncertainty(model, points, measurePathLength);
+
+export const polygonAreaWithUncertainty = (
+  model: UncertaintyModel,
+  points: Point[],
+): UncertainValue => measureWithUncertainty(model, points, measurePolygonArea);
+
+export const angleWithUncertainty = (
+  model: UncertaintyModel,
+  vertex: Point,
+  start: Point,
+  end: Point,
+): UncertainValue =>
+  measureWithUncertainty(model, [vertex, start, end], (space, [v, a, b]) =>
+    measureAngle(space, v, a, b),
+  );
+
+// A circle is placed by its center and a point on its edge
+export const circleWithUncertainty = (
+  model: UncertaintyModel,
+  center: Point,
+  radius: number,
+): Record<keyof CircleMeasurement, UncertainValue> => {
+  const points = [center, { x: center.x + radius, y: center.y }];
+  const measure = (key: keyof CircleMeasurement) =>
+    measureWithUncertainty(
+      model,
+      points,
+      (space, [c, edge]) =>
+        measureCircle(space, c, calculateDistance(c, edge))[key],
+    );
+  return {
+    radius: measure("radius"),
+    diameter: measure("diameter"),
+    circumference: measure("circumference"),
+    area: measure("area"),
+  };
+};
+
+// Points spanned by a circle, for checking how far it extends
+export const getCircleExtent = (center: Point, radius: number): Point[] => [
+  { x: center.x - radius, y: center.y - radius },
+  { x: center.x + radius, y: center.y + radius },
+];
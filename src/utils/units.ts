@@ -0,0 +1,87 @@
+// Measurement units supported for calibration and display.
+// Scales are always stored internally as pixels per centimeter so that
+// projects saved before units existed keep working unchanged.
+
+export type Unit = "mm" | "cm" | "m" | "in" | "ft" | "px";
+
+interface UnitDefinition {
+  label: string;
+  // How many centimeters one of this unit represents (null for pixels)
+  centimeters: number | null;
+}
+
+export const UNITS: Record<Unit, UnitDefinition> = {
+  mm: { label: "millimeters", centimeters: 0.1 },
+  cm: { label: "centimeters", centimeters: 1 },
+  m: { label: "meters", centimeters: 100 },
+  in: { label: "inches", centimeters: 2.54 },
+  ft: { label: "feet", centimeters: 30.48 },
+  px: { label: "pixels", centimeters: null },
+};
+
+export const DEFAULT_UNIT: Unit = "cm";
+
+// Pixels per centimeter assumed for images that have not been calibrated
+export const DEFAULT_SCALE = 96;
+
+// Units that represent a real-world length (everything except pixels)
+export const REAL_UNITS = (Object.keys(UNITS) as Unit[]).filter(
+  (unit) => UNITS[unit].centimeters !== null,
+);
+
+export const isUnit = (value: unknown): value is Unit =>
+  typeof value === "string" && Object.hasOwn(UNITS, value);
+
+// Convert a length in the given unit to centimeters
+export const toCentimeters = (value: number, unit: Unit): number => {
+  return value * (UNITS[unit].centimeters ?? 1);
+};
+
+// Convert a length in centimeters to the given unit
+export const fromCentimeters = (value: number, unit: Unit): number => {
+  return value / (UNITS[unit].centimeters ?? 1);
+};
+
+// Convert a pixel length to the given unit using a pixels-per-cm scale
+export const pixelsToUnit = (
+  pixels: number,
+  scale: number,
+  unit: Unit,
+): number => {
+  if (unit === "px") return pixels;
+  return fromCentimeters(pixels / scale, unit);
+};
+
+// Format a value and, when given, its uncertainty with the same precision
+const formatValue = (
+  value: number,
+  digits: number,
+  uncertainty?: number,
+): string =>
+  uncertainty === undefined
+    ? value.toFixed(digits)
+    : `${value.toFixed(digits)} ± ${uncertainty.toFixed(digits)}`;
+
+// Format a length expressed in the given unit as a labelled value
+export const formatLength = (
+  value: number,
+  unit: Unit,
+  uncertainty?: number,
+): string => {
+  const digits = unit === "px" ? 0 : 2;
+  return `${formatValue(value, digits, uncertainty)} ${unit}`;
+};
+
+// Format an area expressed in the given unit squared as a labelled value
+export const formatArea = (
+  value: number,
+  unit: Unit,
+  uncertainty?: number,
+): string => {
+  const digits = unit === "px" ? 0 : 2;
+  return `${formatValue(value, digits, uncertainty)} ${unit}²`;
+};
+
+// Format an angle in degrees as a labelled value
+export const formatAngle = (value: number, uncertainty?: number): string =>
+  `${formatValue(value, 1, uncertainty)}°`;
@@ -0,0 +1,968 @@
+// Drawing of the viewer's canvas: the saved measurements in their category
+// styles, the shape being drawn, the calibration references and the grid and
+// scale bar overlays, along with the rulers beside the image and the zoom
+// window. Everything on the canvas is in natural image pixels, with lines and
+// labels scaled to keep their size on screen.
+
+import {
+  circleThroughPoints,
+  calculateDistance,
+  closePolygon,
+  snapToAngle,
+  type Angle,
+  type Circle,
+  type Line,
+  type Point,
+} from "./geometry";
+import {
+  findCategory,
+  getLineDash,
+  getMeasurementStyle,
+  isCategoryVisible,
+  withAlpha,
+  type MeasurementCategory,
+  type MeasurementStyle,
+} from "./categories";
+import type { SnapTarget } from "./edgeSnap";
+import {
+  getEditablePoints,
+  getRefCategory,
+  isRefEditable,
+  isSameRef,
+  type EditableKind,
+  type EditableRef,
+  type EditableSelection,
+} from "./editableShapes";
+import type { MeasuredImage, MeasurementInfo } from "./measurements";
+import {
+  formatTick,
+  getMinorDivisions,
+  getNiceStep,
+  getTicks,
+  type ScaleBar,
+  type UnitScale,
+} from "./overlays";
+import { getSnapOrigin, type Tool } from "./tools";
+import {
+  angleWithUncertainty,
+  circleWithUncertainty,
+  distanceWithUncertainty,
+  getCircleExtent,
+  isExtrapolated,
+  pathLengthWithUncertainty,
+  polygonAreaWithUncertainty,
+  type UncertaintyModel,
+} from "./uncertainty";
+import { formatAngle, formatArea, formatLength, type Unit } from "./units";
+
+// Smallest gap between grid lines and between labelled ruler ticks, in
+// screen pixels
+const MIN_GRID_SPACING = 40;
+const MIN_RULER_SPACING = 60;
+
+// Thickness of the scale bar and the distance from its top to the middle of
+// its label, in screen pixels
+export const SCALE_BAR_THICKNESS = 6;
+export const SCALE_BAR_LABEL_OFFSET = 14;
+
+// Size of the zoom window and how much it magnifies the image
+export const ZOOM_WINDOW_SIZE = 150;
+const ZOOM_FACTOR = 3;
+
+// Everything the canvas shows besides the image itself
+export interface ViewerScene {
+  image: MeasuredImage;
+  categories: MeasurementCategory[];
+  uncertaintyModel: UncertaintyModel;
+  unit: Unit;
+  // Image pixels per screen pixel
+  displayScale: number;
+  // Image pixels per unit to draw the grid with, or null without a grid
+  gridScale: UnitScale | null;
+  scaleBar: ScaleBar | null;
+  hovered: EditableRef | null;
+  selected: EditableSelection | null;
+  // Line picked as the first side of an angle between two lines
+  pickedLineIndex: number | null;
+  activeTool: Tool;
+  isCalibrationMode: boolean;
+  isAngleSnap: boolean;
+  // Corners of the perspective reference rectangle placed so far
+  isPerspectiveMode: boolean;
+  perspectivePoints: Point[];
+  // Vertices of the shape being placed, and the line or circle being
+  // dragged out
+  pathPoints: Point[];
+  startPoint: Point | null;
+  endPoint: Point | null;
+  // The pointer, and the image feature a point placed there snaps to
+  pointer: Point | null;
+  snapTarget: SnapTarget | null;
+}
+
+export const drawViewerScene = (
+  ctx: CanvasRenderingContext2D,
+  scene: ViewerScene,
+) => {
+  const {
+    image,
+    categories,
+    uncertaintyModel,
+    unit,
+    displayScale,
+    gridScale,
+    scaleBar,
+    hovered,
+    selected,
+    pickedLineIndex,
+    activeTool,
+    isCalibrationMode,
+    isAngleSnap,
+    isPerspectiveMode,
+    perspectivePoints,
+    pathPoints,
+    startPoint,
+    endPoint,
+    pointer,
+    snapTarget,
+  } = scene;
+  const { canvas } = ctx;
+  const { calibrationLine, calibrationLineY, perspective } = image;
+  // With a Y scale the axes are calibrated separately
+  const isAnisotropic = image.scaleY !== undefined;
+  const measurementLines = image.measurementLines ?? [];
+  const measurementPaths = image.measurementPaths ?? [];
+  const measurementPolygons = image.measurementPolygons ?? [];
+  const measurementAngles = image.measurementAngles ?? [];
+  const measurementCircles = image.measurementCircles ?? [];
+
+  // Clear canvas
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  // Draw the grid first so everything else stays on top of it, with lines a
+  // round number of units apart from the image's top left corner
+  if (gridScale) {
+    const step = getNiceStep(
+      (MIN_GRID_SPACING * displayScale) / Math.min(gridScale.x, gridScale.y),
+    );
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.35)";
+    ctx.lineWidth = displayScale;
+    ctx.beginPath();
+    getTicks(0, canvas.width / gridScale.x, step).forEach((value) => {
+      ctx.moveTo(value * gridScale.x, 0);
+      ctx.lineTo(value * gridScale.x, canvas.height);
+    });
+    getTicks(0, canvas.height / gridScale.y, step).forEach((value) => {
+      ctx.moveTo(0, value * gridScale.y);
+      ctx.lineTo(canvas.width, value * gridScale.y);
+    });
+    ctx.stroke();
+  }
+
+  // Where a click would place a point, after snapping to image features
+  const cursorPoint = snapTarget?.point ?? pointer;
+
+  // Hovered and selected shapes are both drawn highlighted
+  const isHighlighted = (kind: EditableKind, index: number) =>
+    isSameRef(hovered, { kind, index }) || isSameRef(selected, { kind, index });
+
+  // Helper function to draw perpendicular endpoint markers
+  const drawEndpointMarker = (
+    point: Point,
+    angle: number,
+    color: string,
+    baseLineWidth: number = 2,
+  ) => {
+    const markerLength = 10 * displayScale; // Scale marker length (reduced from 16)
+    const perpAngle = angle + Math.PI / 2;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.beginPath();
+    ctx.moveTo(
+      point.x - (markerLength / 2) * Math.cos(perpAngle),
+      point.y - (markerLength / 2) * Math.sin(perpAngle),
+    );
+    ctx.lineTo(
+      point.x + (markerLength / 2) * Math.cos(perpAngle),
+      point.y + (markerLength / 2) * Math.sin(perpAngle),
+    );
+    ctx.stroke();
+  };
+
+  // Helper function to draw a text label with a readable background
+  const drawTextLabel = (
+    text: string,
+    labelX: number,
+    labelY: number,
+    color: string,
+  ) => {
+    // Set text style - scale font size based on display scale
+    const fontSize = 12 * displayScale; // Scale font size (reduced from 16)
+    ctx.font = `bold ${fontSize}px system-ui, Arial, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    // Draw background rectangle for better readability
+    const metrics = ctx.measureText(text);
+    const padding = 4 * displayScale; // Scale padding (reduced from 6)
+    const bgWidth = metrics.width + padding * 2;
+    const bgHeight = 18 * displayScale; // Scale background height (reduced from 24)
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillRect(
+      labelX - bgWidth / 2,
+      labelY - bgHeight / 2,
+      bgWidth,
+      bgHeight,
+    );
+
+    // Draw text
+    ctx.fillStyle = color;
+    ctx.fillText(text, labelX, labelY);
+  };
+
+  // Flag labels of shapes that span much more than the calibration reference
+  const warningPrefix = (points: Point[]) =>
+    isExtrapolated(uncertaintyModel, points) ? "⚠ " : "";
+
+  // Helper function to draw text label offset to the side of a line
+  const drawLineLabel = (line: Line, color: string) => {
+    const distance = distanceWithUncertainty(
+      uncertaintyModel,
+      line.start,
+      line.end,
+    );
+
+    // Calculate midpoint
+    const midX = (line.start.x + line.end.x) / 2;
+    const midY = (line.start.y + line.end.y) / 2;
+
+    // Calculate angle of the line
+    const angle = Math.atan2(
+      line.end.y - line.start.y,
+      line.end.x - line.start.x,
+    );
+
+    // Calculate perpendicular offset (to the side of the line)
+    const offsetDistance = 30 * displayScale; // Scale offset distance (reduced from 40)
+    const perpAngle = angle + Math.PI / 2; // Perpendicular angle
+
+    // Position label to the side of the line
+    const labelX = midX + offsetDistance * Math.cos(perpAngle);
+    const labelY = midY + offsetDistance * Math.sin(perpAngle);
+
+    drawTextLabel(
+      warningPrefix([line.start, line.end]) +
+        formatLength(distance.value, unit, distance.uncertainty),
+      labelX,
+      labelY,
+      color,
+    );
+  };
+
+  // Helper function to draw a path with per-segment and cumulative lengths
+  const drawPath = (
+    points: Point[],
+    color: string,
+    baseLineWidth: number,
+    labelColor: string,
+  ) => {
+    if (points.length < 2) return;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    // Draw the connected segments
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+    ctx.stroke();
+
+    // Draw end markers perpendicular to the first and last segments
+    const first = points[0];
+    const last = points[points.length - 1];
+    const beforeLast = points[points.length - 2];
+    drawEndpointMarker(
+      first,
+      Math.atan2(points[1].y - first.y, points[1].x - first.x),
+      color,
+      baseLineWidth,
+    );
+    drawEndpointMarker(
+      last,
+      Math.atan2(last.y - beforeLast.y, last.x - beforeLast.x),
+      color,
+      baseLineWidth,
+    );
+
+    // Draw dots on the intermediate vertices
+    ctx.fillStyle = color;
+    points.slice(1, -1).forEach((point) => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 3 * displayScale, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    if (points.length === 2) {
+      drawLineLabel({ start: first, end: last }, labelColor);
+      return;
+    }
+
+    // Label each segment, then the cumulative length next to the last vertex
+    for (let i = 1; i < points.length; i++) {
+      drawLineLabel({ start: points[i - 1], end: points[i] }, labelColor);
+    }
+    const total = pathLengthWithUncertainty(uncertaintyModel, points);
+    const totalText = `${warningPrefix(points)}Total: ${formatLength(total.value, unit, total.uncertainty)}`;
+    drawTextLabel(
+      totalText,
+      last.x,
+      last.y - 20 * displayScale,
+      labelColor === "#ffffff" ? "#ffcc00" : labelColor,
+    );
+  };
+
+  // Helper function to draw a filled polygon with its area and perimeter
+  const drawPolygon = (
+    points: Point[],
+    color: string,
+    fillColor: string,
+    baseLineWidth: number,
+    labelColor: string,
+  ) => {
+    ctx.strokeStyle = color;
+    ctx.fillStyle = fillColor;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.lineJoin = "round";
+
+    // Draw the translucent fill and closed outline
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Draw dots on every vertex
+    ctx.fillStyle = color;
+    points.forEach((point) => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 3 * displayScale, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    // Label area and perimeter at the vertex centroid
+    const centerX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const centerY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const lineHeight = 20 * displayScale;
+    const area = polygonAreaWithUncertainty(uncertaintyModel, points);
+    const perimeter = pathLengthWithUncertainty(
+      uncertaintyModel,
+      closePolygon(points),
+    );
+    drawTextLabel(
+      `${warningPrefix(points)}Area: ${formatArea(area.value, unit, area.uncertainty)}`,
+      centerX,
+      centerY - lineHeight / 2,
+      labelColor,
+    );
+    drawTextLabel(
+      `Perimeter: ${formatLength(perimeter.value, unit, perimeter.uncertainty)}`,
+      centerX,
+      centerY + lineHeight / 2,
+      labelColor,
+    );
+  };
+
+  // Helper function to draw an angle's arms, arc and value in degrees
+  const drawAngle = (
+    angle: Angle,
+    color: string,
+    baseLineWidth: number,
+    labelColor: string,
+  ) => {
+    const { vertex, start, end } = angle;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.lineCap = "round";
+
+    // Draw both arms from the vertex
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(vertex.x, vertex.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+
+    // Draw the arc along the smaller side between the arms
+    const startAngle = Math.atan2(start.y - vertex.y, start.x - vertex.x);
+    const endAngle = Math.atan2(end.y - vertex.y, end.x - vertex.x);
+    let sweep = endAngle - startAngle;
+    if (sweep > Math.PI) sweep -= Math.PI * 2;
+    if (sweep < -Math.PI) sweep += Math.PI * 2;
+
+    const shortestArm = Math.min(
+      calculateDistance(vertex, start),
+      calculateDistance(vertex, end),
+    );
+    const radius = Math.min(30 * displayScale, shortestArm * 0.5);
+    ctx.beginPath();
+    ctx.arc(
+      vertex.x,
+      vertex.y,
+      radius,
+      startAngle,
+      startAngle + sweep,
+      sweep < 0,
+    );
+    ctx.stroke();
+
+    // Place the label along the bisector, just outside the arc
+    const bisector = startAngle + sweep / 2;
+    const labelDistance = radius + 20 * displayScale;
+    const measured = angleWithUncertainty(uncertaintyModel, vertex, start, end);
+    drawTextLabel(
+      formatAngle(measured.value, measured.uncertainty),
+      vertex.x + labelDistance * Math.cos(bisector),
+      vertex.y + labelDistance * Math.sin(bisector),
+      labelColor,
+    );
+  };
+
+  // Helper function to draw a circle with its radius, diameter, circumference and area
+  const drawCircle = (
+    circle: Circle,
+    color: string,
+    baseLineWidth: number,
+    labelColor: string,
+  ) => {
+    const { center, radius } = circle;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+
+    // Draw the circumference
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Draw a cross on the center
+    const crossSize = 5 * displayScale;
+    ctx.beginPath();
+    ctx.moveTo(center.x - crossSize, center.y);
+    ctx.lineTo(center.x + crossSize, center.y);
+    ctx.moveTo(center.x, center.y - crossSize);
+    ctx.lineTo(center.x, center.y + crossSize);
+    ctx.stroke();
+
+    // Stack the labels below the center
+    const lineHeight = 20 * displayScale;
+    const measured = circleWithUncertainty(uncertaintyModel, center, radius);
+    const warning = warningPrefix(getCircleExtent(center, radius));
+    const labels = [
+      `${warning}r: ${formatLength(measured.radius.value, unit, measured.radius.uncertainty)}`,
+      `d: ${formatLength(measured.diameter.value, unit, measured.diameter.uncertainty)}`,
+      `C: ${formatLength(measured.circumference.value, unit, measured.circumference.uncertainty)}`,
+      `A: ${formatArea(measured.area.value, unit, measured.area.uncertainty)}`,
+    ];
+    labels.forEach((text, index) => {
+      drawTextLabel(
+        text,
+        center.x,
+        center.y + (index + 1) * lineHeight,
+        labelColor,
+      );
+    });
+  };
+
+  // Draw the perspective reference rectangle, or the corners placed so far
+  const drawPerspectiveOutline = (corners: Point[], closed: boolean) => {
+    ctx.strokeStyle = "#4444ff";
+    ctx.lineWidth = 2 * displayScale;
+    ctx.setLineDash([6 * displayScale, 4 * displayScale]);
+    ctx.beginPath();
+    ctx.moveTo(corners[0].x, corners[0].y);
+    corners.slice(1).forEach((corner) => ctx.lineTo(corner.x, corner.y));
+    if (closed) ctx.closePath();
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = "#4444ff";
+    corners.forEach((corner) => {
+      ctx.beginPath();
+      ctx.arc(corner.x, corner.y, 4 * displayScale, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  };
+  if (isPerspectiveMode && perspectivePoints.length > 0) {
+    drawPerspectiveOutline(
+      cursorPoint && perspectivePoints.length < 4
+        ? [...perspectivePoints, cursorPoint]
+        : perspectivePoints,
+      perspectivePoints.length === 4,
+    );
+  } else if (perspective && !isPerspectiveMode) {
+    drawPerspectiveOutline(perspective.corners, true);
+  }
+
+  // Draw calibration lines first (if they exist) in blue
+  [calibrationLine, calibrationLineY].forEach((line, index) => {
+    if (!line) return;
+    const isHovered = isHighlighted("calibration", index);
+    const color = isHovered ? "#8888ff" : "#4444ff";
+    const baseLineWidth = isHovered ? 3 : 2; // Base line width (will be scaled, reduced from 4)
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.lineCap = "round";
+
+    // Calculate angle for perpendicular markers
+    const angle = Math.atan2(
+      line.end.y - line.start.y,
+      line.end.x - line.start.x,
+    );
+
+    // Draw line
+    ctx.beginPath();
+    ctx.moveTo(line.start.x, line.start.y);
+    ctx.lineTo(line.end.x, line.end.y);
+    ctx.stroke();
+
+    // Draw start point marker
+    drawEndpointMarker(line.start, angle, color, baseLineWidth);
+
+    // Draw end point marker
+    drawEndpointMarker(line.end, angle, color, baseLineWidth);
+
+    // Tell the X and Y references apart when the axes are calibrated separately
+    if (isAnisotropic) {
+      drawTextLabel(
+        index === 1 ? "Y" : "X",
+        (line.start.x + line.end.x) / 2,
+        (line.start.y + line.end.y) / 2,
+        "#ffffff",
+      );
+    }
+  });
+
+  // Saved measurements are drawn in their category's color and line style,
+  // and not at all while it is hidden
+  const getStyle = (measurement: MeasurementInfo) => {
+    const category = findCategory(categories, measurement.category);
+    return isCategoryVisible(category) ? getMeasurementStyle(category) : null;
+  };
+  const setLineStyle = (style: MeasurementStyle, baseLineWidth: number) =>
+    ctx.setLineDash(getLineDash(style.lineStyle, baseLineWidth * displayScale));
+
+  // Draw all saved measurement lines with labels
+  measurementLines.forEach((line, index) => {
+    const style = getStyle(line);
+    if (!style) return;
+    const isHovered = isHighlighted("line", index);
+    const isPicked = pickedLineIndex === index;
+    const color = isPicked
+      ? "#ffaa00"
+      : isHovered
+        ? style.highlightColor
+        : style.color;
+    const baseLineWidth = isHovered ? 3 : 2; // Base line width (will be scaled, reduced from 5/4)
+
+    setLineStyle(style, baseLineWidth);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.lineCap = "round";
+
+    // Calculate angle for perpendicular markers
+    const angle = Math.atan2(
+      line.end.y - line.start.y,
+      line.end.x - line.start.x,
+    );
+
+    // Draw line
+    ctx.beginPath();
+    ctx.moveTo(line.start.x, line.start.y);
+    ctx.lineTo(line.end.x, line.end.y);
+    ctx.stroke();
+
+    // Draw start point marker
+    drawEndpointMarker(line.start, angle, color, baseLineWidth);
+
+    // Draw end point marker
+    drawEndpointMarker(line.end, angle, color, baseLineWidth);
+
+    // Draw label with distance
+    drawLineLabel(line, isHovered ? "#ffff00" : "#ffffff");
+    ctx.setLineDash([]);
+  });
+
+  // Draw all saved paths with segment and total lengths
+  measurementPaths.forEach((path, index) => {
+    const style = getStyle(path);
+    if (!style) return;
+    const isHovered = isHighlighted("path", index);
+    setLineStyle(style, isHovered ? 3 : 2);
+    drawPath(
+      path.points,
+      isHovered ? style.highlightColor : style.color,
+      isHovered ? 3 : 2,
+      isHovered ? "#ffff00" : "#ffffff",
+    );
+    ctx.setLineDash([]);
+  });
+
+  // Draw all saved polygons with area and perimeter
+  measurementPolygons.forEach((polygon, index) => {
+    const style = getStyle(polygon);
+    if (!style) return;
+    const isHovered = isHighlighted("polygon", index);
+    setLineStyle(style, isHovered ? 3 : 2);
+    drawPolygon(
+      polygon.points,
+      isHovered ? style.highlightColor : style.color,
+      isHovered
+        ? withAlpha(style.highlightColor, 0.3)
+        : withAlpha(style.color, 0.2),
+      isHovered ? 3 : 2,
+      isHovered ? "#ffff00" : "#ffffff",
+    );
+    ctx.setLineDash([]);
+  });
+
+  // Draw all saved angles with their arcs
+  measurementAngles.forEach((angle, index) => {
+    const style = getStyle(angle);
+    if (!style) return;
+    const isHovered = isHighlighted("angle", index);
+    setLineStyle(style, isHovered ? 3 : 2);
+    drawAngle(
+      angle,
+      isHovered ? style.highlightColor : style.color,
+      isHovered ? 3 : 2,
+      isHovered ? "#ffff00" : "#ffffff",
+    );
+    ctx.setLineDash([]);
+  });
+
+  // Draw all saved circles with their dimensions
+  measurementCircles.forEach((circle, index) => {
+    const style = getStyle(circle);
+    if (!style) return;
+    const isHovered = isHighlighted("circle", index);
+    setLineStyle(style, isHovered ? 3 : 2);
+    drawCircle(
+      circle,
+      isHovered ? style.highlightColor : style.color,
+      isHovered ? 3 : 2,
+      isHovered ? "#ffff00" : "#ffffff",
+    );
+    ctx.setLineDash([]);
+  });
+
+  // Draw the shape being drawn, previewing the next vertex at the cursor
+  if (pathPoints.length > 0) {
+    const lastPoint = pathPoints[pathPoints.length - 1];
+    const snapOrigin = getSnapOrigin(activeTool, pathPoints);
+    const previewPoint =
+      pointer && snapOrigin && isAngleSnap
+        ? snapToAngle(snapOrigin, pointer)
+        : cursorPoint;
+    const previewPoints = previewPoint
+      ? [...pathPoints, previewPoint]
+      : pathPoints;
+
+    if (previewPoints.length === 1) {
+      ctx.fillStyle = "#ff4444";
+      ctx.beginPath();
+      ctx.arc(lastPoint.x, lastPoint.y, 3 * displayScale, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (activeTool === "angle") {
+      if (previewPoints.length >= 3) {
+        const [vertex, start, end] = previewPoints;
+        drawAngle({ vertex, start, end }, "#ff4444", 2, "#ffffff");
+      } else {
+        ctx.strokeStyle = "#ff4444";
+        ctx.lineWidth = 2 * displayScale;
+        ctx.beginPath();
+        ctx.moveTo(previewPoints[0].x, previewPoints[0].y);
+        ctx.lineTo(previewPoints[1].x, previewPoints[1].y);
+        ctx.stroke();
+      }
+    } else if (activeTool === "circle3") {
+      // Show the placed points and, once there are three, the fitted circle
+      ctx.fillStyle = "#ff4444";
+      previewPoints.forEach((point) => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 3 * displayScale, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      const circle =
+        previewPoints.length >= 3
+          ? circleThroughPoints(
+              previewPoints[0],
+              previewPoints[1],
+              previewPoints[2],
+            )
+          : null;
+      if (circle) drawCircle(circle, "#ff4444", 2, "#ffffff");
+    } else if (activeTool === "polygon" && previewPoints.length >= 3) {
+      drawPolygon(
+        previewPoints,
+        "#ff4444",
+        "rgba(255, 68, 68, 0.2)",
+        2,
+        "#ffffff",
+      );
+    } else {
+      drawPath(previewPoints, "#ff4444", 2, "#ffffff");
+    }
+  }
+
+  // Draw the circle being dragged out from its center (if exists)
+  if (startPoint && endPoint && activeTool === "circle" && !isCalibrationMode) {
+    ctx.strokeStyle = "#ff4444";
+    ctx.lineWidth = 2 * displayScale;
+    ctx.beginPath();
+    ctx.moveTo(startPoint.x, startPoint.y);
+    ctx.lineTo(endPoint.x, endPoint.y);
+    ctx.stroke();
+    drawCircle(
+      { center: startPoint, radius: calculateDistance(startPoint, endPoint) },
+      "#ff4444",
+      2,
+      "#ffffff",
+    );
+  } else if (startPoint && endPoint) {
+    // Draw current measurement line being drawn (if exists)
+    const color = isCalibrationMode ? "#4444ff" : "#ff4444";
+    const baseLineWidth = 2; // Base line width (will be scaled, reduced from 4)
+    ctx.strokeStyle = color;
+    ctx.lineWidth = baseLineWidth * displayScale; // Scale line width
+    ctx.lineCap = "round";
+
+    // Calculate angle for perpendicular markers
+    const angle = Math.atan2(
+      endPoint.y - startPoint.y,
+      endPoint.x - startPoint.x,
+    );
+
+    // Draw line
+    ctx.beginPath();
+    ctx.moveTo(startPoint.x, startPoint.y);
+    ctx.lineTo(endPoint.x, endPoint.y);
+    ctx.stroke();
+
+    // Draw start point marker
+    drawEndpointMarker(startPoint, angle, color, baseLineWidth);
+
+    // Draw end point marker
+    drawEndpointMarker(endPoint, angle, color, baseLineWidth);
+
+    // Draw label for current line if not in calibration mode
+    if (!isCalibrationMode) {
+      drawLineLabel({ start: startPoint, end: endPoint }, "#ffffff");
+    }
+  }
+
+  // Draw the scale bar over the measurements, the way exports show it
+  if (scaleBar) {
+    const thickness = SCALE_BAR_THICKNESS * displayScale;
+    const { origin, width } = scaleBar;
+    ctx.fillStyle = "#ffffff";
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = displayScale;
+    ctx.fillRect(origin.x, origin.y - thickness, width, thickness);
+    ctx.strokeRect(origin.x, origin.y - thickness, width, thickness);
+    drawTextLabel(
+      `${scaleBar.value} ${unit}`,
+      origin.x + width / 2,
+      origin.y - thickness - SCALE_BAR_LABEL_OFFSET * displayScale,
+      "#ffffff",
+    );
+  }
+
+  // Draw drag handles on the hovered and selected shapes that can be edited
+  const handleSize = 8 * displayScale;
+  [hovered, selected].forEach((ref) => {
+    if (!ref || !isRefEditable(image, categories, ref)) return;
+    const color =
+      ref.kind === "calibration"
+        ? "#4444ff"
+        : getMeasurementStyle(getRefCategory(image, categories, ref)).color;
+    getEditablePoints(image, ref).forEach((point, index) => {
+      // The handle the arrow keys move is filled in
+      const isActive = ref === selected && index === selected.handle;
+      ctx.fillStyle = isActive ? color : "#ffffff";
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5 * displayScale;
+      ctx.fillRect(
+        point.x - handleSize / 2,
+        point.y - handleSize / 2,
+        handleSize,
+        handleSize,
+      );
+      ctx.strokeRect(
+        point.x - handleSize / 2,
+        point.y - handleSize / 2,
+        handleSize,
+        handleSize,
+      );
+    });
+  });
+};
+
+// Draw a ruler's ticks in its CSS text color, given where the image's origin
+// falls along it and how many screen pixels make up one unit
+export const drawRuler = (
+  ruler: HTMLCanvasElement,
+  axis: "x" | "y",
+  origin: number,
+  pixelsPerUnit: number,
+) => {
+  const ctx = ruler.getContext("2d");
+  if (!ctx) return;
+
+  // Match the screen's pixel density so the ticks stay sharp
+  const ratio = window.devicePixelRatio || 1;
+  const width = ruler.clientWidth;
+  const height = ruler.clientHeight;
+  ruler.width = Math.round(width * ratio);
+  ruler.height = Math.round(height * ratio);
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const length = axis === "x" ? width : height;
+  const thickness = axis === "x" ? height : width;
+  const step = getNiceStep(MIN_RULER_SPACING / pixelsPerUnit);
+  const minorStep = step / getMinorDivisions(step);
+  const color = getComputedStyle(ruler).color;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 1;
+  ctx.font = "10px system-ui, Arial, sans-serif";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+
+  ctx.beginPath();
+  getTicks(
+    -origin / pixelsPerUnit,
+    (length - origin) / pixelsPerUnit,
+    minorStep,
+  ).forEach((value) => {
+    // Half-pixel offset to draw one-pixel lines on the pixel grid
+    const position = Math.round(origin + value * pixelsPerUnit) + 0.5;
+    const isLabelled = Math.abs(value / step - Math.round(value / step)) < 1e-6;
+    const tick = thickness * (isLabelled ? 0.6 : 0.25);
+    if (axis === "x") {
+      ctx.moveTo(position, thickness);
+      ctx.lineTo(position, thickness - tick);
+    } else {
+      ctx.moveTo(thickness, position);
+      ctx.lineTo(thickness - tick, position);
+    }
+    if (!isLabelled) return;
+
+    const label = formatTick(value, step);
+    if (axis === "x") {
+      ctx.fillText(label, position + 3, 2);
+    } else {
+      // Read from bottom to top along the left edge
+      ctx.save();
+      ctx.translate(2, position - 3);
+      ctx.rotate(-Math.PI / 2);
+      ctx.fillText(label, 0, 0);
+      ctx.restore();
+    }
+  });
+  ctx.stroke();
+};
+
+// Show the image around a point magnified, with a crosshair on the point and
+// a mark on the feature it snaps to: a square for corners, a ring for edges
+export const drawZoomWindow = (
+  zoomCanvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+  center: Point,
+  snapTarget: SnapTarget | null,
+) => {
+  const zoomCtx = zoomCanvas.getContext("2d");
+  if (!zoomCtx) return;
+
+  const zoomSize = ZOOM_WINDOW_SIZE;
+  const sourceSize = zoomSize / ZOOM_FACTOR; // Size of area to copy from source
+
+  // Clear zoom canvas
+  zoomCtx.clearRect(0, 0, zoomCanvas.width, zoomCanvas.height);
+
+  // Calculate source coordinates (centered on the point)
+  const sourceX = Math.max(
+    0,
+    Math.min(center.x - sourceSize / 2, width - sourceSize),
+  );
+  const sourceY = Math.max(
+    0,
+    Math.min(center.y - sourceSize / 2, height - sourceSize),
+  );
+
+  // Draw the image at its displayed size on an offscreen canvas, leaving the
+  // measurements out for a clearer view
+  const offscreenCanvas = document.createElement("canvas");
+  offscreenCanvas.width = width;
+  offscreenCanvas.height = height;
+  const offscreenCtx = offscreenCanvas.getContext("2d");
+  if (!offscreenCtx) return;
+  offscreenCtx.drawImage(image, 0, 0, width, height);
+
+  // Now draw the zoomed portion
+  zoomCtx.drawImage(
+    offscreenCanvas,
+    sourceX,
+    sourceY,
+    sourceSize,
+    sourceSize,
+    0,
+    0,
+    zoomSize,
+    zoomSize,
+  );
+
+  // Draw crosshair in the center
+  zoomCtx.strokeStyle = "#00ff00";
+  zoomCtx.lineWidth = 1;
+  const middle = zoomSize / 2;
+
+  // Horizontal line
+  zoomCtx.beginPath();
+  zoomCtx.moveTo(0, middle);
+  zoomCtx.lineTo(zoomSize, middle);
+  zoomCtx.stroke();
+
+  // Vertical line
+  zoomCtx.beginPath();
+  zoomCtx.moveTo(middle, 0);
+  zoomCtx.lineTo(middle, zoomSize);
+  zoomCtx.stroke();
+
+  // Draw center dot
+  zoomCtx.fillStyle = "#00ff00";
+  zoomCtx.beginPath();
+  zoomCtx.arc(middle, middle, 2, 0, Math.PI * 2);
+  zoomCtx.fill();
+
+  if (snapTarget) {
+    const targetX = (snapTarget.point.x - sourceX) * ZOOM_FACTOR;
+    const targetY = (snapTarget.point.y - sourceY) * ZOOM_FACTOR;
+    zoomCtx.strokeStyle = "#00ffff";
+    zoomCtx.lineWidth = 2;
+    zoomCtx.beginPath();
+    if (snapTarget.kind === "corner") {
+      zoomCtx.rect(targetX - 5, targetY - 5, 10, 10);
+    } else {
+      zoomCtx.arc(targetX, targetY, 5, 0, Math.PI * 2);
+    }
+    zoomCtx.stroke();
+  }
+};
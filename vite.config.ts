@@ -2,6 +2,11 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  build: {
+    // The command-line tool is built as an SSR bundle for Node, which has no
+    // use for the web app's static files
+    copyPublicDir: !isSsrBuild,
+  },
+}))